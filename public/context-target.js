@@ -0,0 +1,7 @@
+document.addEventListener(
+  'contextmenu',
+  (event) => {
+    window.__pagesnapContextTarget = event.target instanceof Element ? event.target : null
+  },
+  true,
+)
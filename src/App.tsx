@@ -1,82 +1,440 @@
-import { useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import {
   AdjustmentsHorizontalIcon,
+  ArchiveBoxArrowDownIcon,
   ArrowDownTrayIcon,
+  BookOpenIcon,
   ClipboardDocumentIcon,
+  CursorArrowRaysIcon,
   EyeIcon,
-  ExclamationTriangleIcon,
+  QueueListIcon,
+  ShieldCheckIcon,
+  XMarkIcon,
 } from '@heroicons/react/24/outline'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { cloneActiveTab, downloadHtml, sanitizeFileName } from '@/lib/cloner'
+import { CleanupRulesEditor } from '@/components/cleanup-rules-editor'
+import { DiagnosticsPanel } from '@/components/diagnostics-panel'
+import { FetchPolicyEditor } from '@/components/fetch-policy-editor'
+import { RedactionEditor } from '@/components/redaction-editor'
+import { formatAllowedHosts, parseAllowedHosts } from '@/lib/asset-fetch'
+import {
+  CAPTURE_JOBS_PORT,
+  type BatchJob,
+  type CaptureAction,
+  type CaptureJob,
+  type CaptureJobsRequest,
+  type CaptureJobsUpdate,
+} from '@/lib/capture-jobs'
+import { formatCleanupRules, parseCleanupRules } from '@/lib/cleanup'
+import {
+  getActiveTab,
+  type CaptureStage,
+  type CloneOptions,
+  type CloneResult,
+  downloadBlob,
+  type DownloadFormat,
+  sanitizeFileName,
+} from '@/lib/cloner'
+import { getWindowTargets, parseUrlList, type BatchItem, type BatchOutput } from '@/lib/batch'
+import { createDiagnosticsReport, type Diagnostic } from '@/lib/diagnostics'
+import { openLibraryPage } from '@/lib/library'
+import { clearPickedElement, getPickedElement, startElementPicker } from '@/lib/picker'
+import {
+  createRedactionReport,
+  formatRedactionLines,
+  hasRedaction,
+  parseRedactionLines,
+  summarizeRedactions,
+} from '@/lib/redaction'
+import {
+  DEFAULT_CLONE_OPTIONS,
+  findPresetForUrl,
+  isSameCaptureSettings,
+  loadSettings,
+  saveCaptureSettings,
+  type CaptureSettings,
+  type Preset,
+} from '@/lib/settings'
 
 const STATUS_IDLE = 'Ready to capture the current page.'
+const DEFAULT_BATCH_CONCURRENCY = 3
+const DEFAULT_BATCH_TIMEOUT_SECONDS = 60
+
+type BatchSource = 'window' | 'urls'
+
+const BATCH_STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  loading: 'Loading',
+  capturing: 'Capturing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+const CAPTURE_STAGE_ORDER: CaptureStage[] = [
+  'scroll',
+  'freeze',
+  'styles',
+  'clone',
+  'assets',
+  'serialize',
+]
+
+const progressPercent = ({ progress }: CaptureJob) => {
+  if (!progress) {
+    return 100
+  }
+  const stageIndex = CAPTURE_STAGE_ORDER.indexOf(progress.stage)
+  const stageShare = progress.total ? (progress.completed ?? 0) / progress.total : 0
+  return Math.round(((stageIndex + stageShare) / CAPTURE_STAGE_ORDER.length) * 100)
+}
+
+const openPreview = async (html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }))
+  chrome.tabs.create({ url }, () => {
+    setTimeout(() => URL.revokeObjectURL(url), 10_000)
+  })
+}
 
 function App() {
   const [status, setStatus] = useState(STATUS_IDLE)
-  const [isWorking, setIsWorking] = useState(false)
-  const [removeScripts, setRemoveScripts] = useState(true)
-  const [removeOriginalStyles, setRemoveOriginalStyles] = useState(true)
-  const [useHostFetch, setUseHostFetch] = useState(true)
-  const [addCsp, setAddCsp] = useState(false)
-  const [cloneWarnings, setCloneWarnings] = useState<string[]>([])
-
-  const runClone = async () => {
-    setIsWorking(true)
-    setStatus('Preparing the page snapshot...')
-    setCloneWarnings([])
+  const [removeScripts, setRemoveScripts] = useState(DEFAULT_CLONE_OPTIONS.removeScripts)
+  const [removeOriginalStyles, setRemoveOriginalStyles] = useState(
+    DEFAULT_CLONE_OPTIONS.removeOriginalStyles,
+  )
+  const [useHostFetch, setUseHostFetch] = useState(DEFAULT_CLONE_OPTIONS.useHostFetch)
+  const [addCsp, setAddCsp] = useState(DEFAULT_CLONE_OPTIONS.addCsp)
+  const [inlineAssets, setInlineAssets] = useState(DEFAULT_CLONE_OPTIONS.inlineAssets)
+  const [maxInlineAssetKb, setMaxInlineAssetKb] = useState(
+    DEFAULT_CLONE_OPTIONS.maxInlineAssetBytes / 1024,
+  )
+  const [preserveFormState, setPreserveFormState] = useState(
+    DEFAULT_CLONE_OPTIONS.preserveFormState,
+  )
+  const [includePasswords, setIncludePasswords] = useState(DEFAULT_CLONE_OPTIONS.includePasswords)
+  const [rasterizeMedia, setRasterizeMedia] = useState(DEFAULT_CLONE_OPTIONS.rasterizeMedia)
+  const [resolveLazyContent, setResolveLazyContent] = useState(
+    DEFAULT_CLONE_OPTIONS.resolveLazyContent,
+  )
+  const [cleanupPacks, setCleanupPacks] = useState(DEFAULT_CLONE_OPTIONS.cleanupPacks)
+  const [cleanupRulesText, setCleanupRulesText] = useState(
+    formatCleanupRules(DEFAULT_CLONE_OPTIONS.cleanupRules),
+  )
+  const [redactEmails, setRedactEmails] = useState(DEFAULT_CLONE_OPTIONS.redactEmails)
+  const [redactPhoneNumbers, setRedactPhoneNumbers] = useState(
+    DEFAULT_CLONE_OPTIONS.redactPhoneNumbers,
+  )
+  const [redactCardNumbers, setRedactCardNumbers] = useState(
+    DEFAULT_CLONE_OPTIONS.redactCardNumbers,
+  )
+  const [redactPatternsText, setRedactPatternsText] = useState(
+    formatRedactionLines(DEFAULT_CLONE_OPTIONS.redactPatterns),
+  )
+  const [redactSelectorsText, setRedactSelectorsText] = useState(
+    formatRedactionLines(DEFAULT_CLONE_OPTIONS.redactSelectors),
+  )
+  const [stripDataAttributes, setStripDataAttributes] = useState(
+    DEFAULT_CLONE_OPTIONS.stripDataAttributes,
+  )
+  const [stripUrlTokens, setStripUrlTokens] = useState(DEFAULT_CLONE_OPTIONS.stripUrlTokens)
+  const [fetchTimeoutSeconds, setFetchTimeoutSeconds] = useState(
+    DEFAULT_CLONE_OPTIONS.fetchTimeoutMs / 1000,
+  )
+  const [fetchRetries, setFetchRetries] = useState(DEFAULT_CLONE_OPTIONS.fetchRetries)
+  const [fetchAllowedHostsText, setFetchAllowedHostsText] = useState(
+    formatAllowedHosts(DEFAULT_CLONE_OPTIONS.fetchAllowedHosts),
+  )
+  const [captureScreenshot, setCaptureScreenshot] = useState(false)
+  const [embedScreenshot, setEmbedScreenshot] = useState(false)
+  const [inlineComputedStyles, setInlineComputedStyles] = useState(
+    DEFAULT_CLONE_OPTIONS.inlineComputedStyles,
+  )
+  const [cloneDiagnostics, setCloneDiagnostics] = useState<Diagnostic[]>([])
+  const [diagnosticsSource, setDiagnosticsSource] = useState<Pick<
+    CloneResult,
+    'url' | 'title'
+  > | null>(null)
+  const [redactionResult, setRedactionResult] = useState<Pick<
+    CloneResult,
+    'url' | 'title' | 'redactions'
+  > | null>(null)
+  const [pickedElement, setPickedElement] = useState<string | null>(null)
+  const [downloadFormat, setDownloadFormat] = useState<DownloadFormat>('html')
+  const [batchSource, setBatchSource] = useState<BatchSource>('window')
+  const [batchUrls, setBatchUrls] = useState('')
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY)
+  const [batchTimeoutSeconds, setBatchTimeoutSeconds] = useState(DEFAULT_BATCH_TIMEOUT_SECONDS)
+  const [batchOutput, setBatchOutput] = useState<BatchOutput>('zip')
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([])
+  const [presets, setPresets] = useState<Preset[]>([])
+  const [ruleMatchedPreset, setRuleMatchedPreset] = useState<string | null>(null)
+  const [settingsLoaded, setSettingsLoaded] = useState(false)
+  const [activeTabId, setActiveTabId] = useState<number | null>(null)
+  const [captureJob, setCaptureJob] = useState<CaptureJob | null>(null)
+  const [batchJob, setBatchJob] = useState<BatchJob | null>(null)
+  const jobsPort = useRef<chrome.runtime.Port | null>(null)
+  const loadedSettings = useRef<string | null>(null)
+  const settingsEdited = useRef(false)
+  const captureRunning = captureJob?.status === 'running'
+  const batchRunning = batchJob?.status === 'running'
 
-    try {
-      const { html, warnings, title } = await cloneActiveTab({
-        removeScripts,
-        removeOriginalStyles,
-        useHostFetch,
-        addCsp,
+  const applyCaptureSettings = useCallback(({ options, format }: CaptureSettings) => {
+    setRemoveScripts(options.removeScripts)
+    setRemoveOriginalStyles(options.removeOriginalStyles)
+    setUseHostFetch(options.useHostFetch)
+    setAddCsp(options.addCsp)
+    setInlineAssets(options.inlineAssets)
+    setMaxInlineAssetKb(Math.max(1, Math.round(options.maxInlineAssetBytes / 1024)))
+    setPreserveFormState(options.preserveFormState)
+    setIncludePasswords(options.includePasswords)
+    setRasterizeMedia(options.rasterizeMedia)
+    setInlineComputedStyles(options.inlineComputedStyles)
+    setResolveLazyContent(options.resolveLazyContent)
+    setCleanupPacks(options.cleanupPacks)
+    setCleanupRulesText(formatCleanupRules(options.cleanupRules))
+    setRedactEmails(options.redactEmails)
+    setRedactPhoneNumbers(options.redactPhoneNumbers)
+    setRedactCardNumbers(options.redactCardNumbers)
+    setRedactPatternsText(formatRedactionLines(options.redactPatterns))
+    setRedactSelectorsText(formatRedactionLines(options.redactSelectors))
+    setStripDataAttributes(options.stripDataAttributes)
+    setStripUrlTokens(options.stripUrlTokens)
+    setFetchTimeoutSeconds(Math.max(1, Math.round(options.fetchTimeoutMs / 1000)))
+    setFetchRetries(options.fetchRetries)
+    setFetchAllowedHostsText(formatAllowedHosts(options.fetchAllowedHosts))
+    setDownloadFormat(format)
+  }, [])
+
+  const handleCaptureJob = useCallback((job: CaptureJob | null) => {
+    setCaptureJob(job)
+    if (!job) {
+      return
+    }
+    setStatus(job.message)
+    if (job.status === 'running') {
+      return
+    }
+    if (job.result) {
+      setCloneDiagnostics(job.result.diagnostics)
+      setDiagnosticsSource(job.result)
+      setRedactionResult(job.result.redactions.length > 0 ? job.result : null)
+    }
+    const html = job.result?.html
+    const delivery = !html
+      ? Promise.resolve()
+      : job.action === 'copy'
+        ? navigator.clipboard.writeText(html).then(() => setStatus('Snapshot copied to clipboard.'))
+        : openPreview(html)
+    delivery
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Something went wrong.'
+        setStatus(message)
       })
+      .finally(() => {
+        const request: CaptureJobsRequest = { type: 'ACKNOWLEDGE_CAPTURE', jobId: job.id }
+        jobsPort.current?.postMessage(request)
+      })
+  }, [])
 
-      const fileName = `${sanitizeFileName(title || 'pagesnap')}.html`
-      setCloneWarnings(warnings)
-      setStatus('Snapshot ready.')
-      return { html, fileName }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : 'Something went wrong.'
-      setStatus(message)
-      return null
-    } finally {
-      setIsWorking(false)
+  const handleBatchJob = useCallback((job: BatchJob | null) => {
+    setBatchJob(job)
+    if (!job) {
+      return
     }
+    setBatchItems(job.items)
+    setStatus(job.message)
+    if (job.status === 'running') {
+      return
+    }
+    setCloneDiagnostics(job.diagnostics)
+    setDiagnosticsSource(null)
+    const request: CaptureJobsRequest = { type: 'ACKNOWLEDGE_BATCH', jobId: job.id }
+    jobsPort.current?.postMessage(request)
+  }, [])
+
+  // Captures and batches run in the background worker; the popup only follows the job for its tab
+  // and the current batch.
+  useEffect(() => {
+    const port = chrome.runtime.connect({ name: CAPTURE_JOBS_PORT })
+    jobsPort.current = port
+    port.onMessage.addListener((update: CaptureJobsUpdate) =>
+      update.type === 'BATCH_JOB' ? handleBatchJob(update.job) : handleCaptureJob(update.job),
+    )
+    getActiveTab()
+      .then((tab) => {
+        setActiveTabId(tab.id)
+        const request: CaptureJobsRequest = { type: 'SUBSCRIBE', tabId: tab.id }
+        port.postMessage(request)
+      })
+      .catch(() => undefined)
+    return () => {
+      port.disconnect()
+      jobsPort.current = null
+    }
+  }, [handleCaptureJob, handleBatchJob])
+
+  useEffect(() => {
+    getPickedElement()
+      .then(setPickedElement)
+      .catch(() => setPickedElement(null))
+  }, [])
+
+  useEffect(() => {
+    Promise.all([getActiveTab().catch(() => null), loadSettings()])
+      .then(([tab, { captureSettings, presets: storedPresets, domainRules }]) => {
+        const preset = findPresetForUrl(tab?.url, storedPresets, domainRules)
+        setPresets(storedPresets)
+        setRuleMatchedPreset(preset?.name ?? null)
+        applyCaptureSettings(preset ?? captureSettings)
+      })
+      .catch(() => undefined)
+      .finally(() => setSettingsLoaded(true))
+  }, [applyCaptureSettings])
+
+  const buildOptions = (format: DownloadFormat, captureSelection: boolean): CloneOptions => ({
+    removeScripts,
+    removeOriginalStyles,
+    useHostFetch,
+    addCsp,
+    inlineAssets,
+    maxInlineAssetBytes: maxInlineAssetKb * 1024,
+    preserveFormState,
+    includePasswords,
+    rasterizeMedia,
+    captureSelection,
+    inlineComputedStyles,
+    collectAssets: format !== 'html',
+    recordResponses: format === 'warc',
+    resolveLazyContent,
+    cleanupPacks,
+    cleanupRules: parseCleanupRules(cleanupRulesText),
+    redactEmails,
+    redactPhoneNumbers,
+    redactCardNumbers,
+    redactPatterns: parseRedactionLines(redactPatternsText),
+    redactSelectors: parseRedactionLines(redactSelectorsText),
+    stripDataAttributes,
+    stripUrlTokens,
+    fetchTimeoutMs: fetchTimeoutSeconds * 1000,
+    fetchRetries,
+    fetchAllowedHosts: parseAllowedHosts(fetchAllowedHostsText),
+  })
+
+  const currentSettings: CaptureSettings = {
+    options: buildOptions(downloadFormat, false),
+    format: downloadFormat,
   }
+  const serializedSettings = JSON.stringify(currentSettings)
+  const redactionEnabled = hasRedaction(currentSettings.options)
+  const activePreset = presets.find((preset) => isSameCaptureSettings(preset, currentSettings))
 
-  const handleDownload = async () => {
-    const snapshot = await runClone()
-    if (!snapshot) {
+  // Only a change made in the popup is saved, so a domain rule's preset never replaces the global
+  // settings just by opening the popup on a matching site.
+  useEffect(() => {
+    if (!settingsLoaded) {
       return
     }
-    setStatus('Building download...')
-    await downloadHtml(snapshot.html, snapshot.fileName)
-    setStatus('Download ready. Check your downloads folder.')
+    loadedSettings.current ??= serializedSettings
+    settingsEdited.current ||= serializedSettings !== loadedSettings.current
+    if (!settingsEdited.current) {
+      return
+    }
+    const timer = setTimeout(() => {
+      saveCaptureSettings(JSON.parse(serializedSettings) as CaptureSettings).catch((error) => {
+        setStatus(error instanceof Error ? error.message : 'Could not save the capture settings.')
+      })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [serializedSettings, settingsLoaded])
+
+  const handlePresetChange = (presetId: string) => {
+    const preset = presets.find((candidate) => candidate.id === presetId)
+    if (preset) {
+      applyCaptureSettings(preset)
+    }
   }
 
-  const handleCopy = async () => {
-    const snapshot = await runClone()
-    if (!snapshot) {
+  const startCapture = (action: CaptureAction) => {
+    if (activeTabId === null) {
+      setStatus('No active tab detected.')
       return
     }
-    await navigator.clipboard.writeText(snapshot.html)
-    setStatus('Snapshot copied to clipboard.')
+    setCloneDiagnostics([])
+    setDiagnosticsSource(null)
+    setRedactionResult(null)
+    const format = action === 'download' ? downloadFormat : 'html'
+    const request: CaptureJobsRequest = {
+      type: 'START_CAPTURE',
+      request: {
+        tabId: activeTabId,
+        action,
+        format,
+        options: buildOptions(format, pickedElement !== null),
+        captureScreenshot,
+        embedScreenshot: embedScreenshot && !redactionEnabled,
+      },
+    }
+    jobsPort.current?.postMessage(request)
   }
 
-  const handlePreview = async () => {
-    const snapshot = await runClone()
-    if (!snapshot) {
+  const handleCancel = () => {
+    if (activeTabId === null) {
       return
     }
-    const blob = new Blob([snapshot.html], { type: 'text/html' })
-    const url = URL.createObjectURL(blob)
-    chrome.tabs.create({ url }, () => {
-      setTimeout(() => URL.revokeObjectURL(url), 10_000)
-    })
+    const request: CaptureJobsRequest = { type: 'CANCEL_CAPTURE', tabId: activeTabId }
+    jobsPort.current?.postMessage(request)
+    setStatus('Cancelling...')
+  }
+
+  const handleBatch = async () => {
+    setCloneDiagnostics([])
+    setDiagnosticsSource(null)
+    setBatchItems([])
+
+    try {
+      const targets = batchSource === 'window' ? await getWindowTargets() : parseUrlList(batchUrls)
+      if (targets.length === 0) {
+        setStatus('No capturable pages found for the batch.')
+        return
+      }
+      const request: CaptureJobsRequest = {
+        type: 'START_BATCH',
+        request: {
+          targets,
+          options: buildOptions('html', false),
+          concurrency: batchConcurrency,
+          timeoutMs: batchTimeoutSeconds * 1000,
+          output: batchOutput,
+        },
+      }
+      jobsPort.current?.postMessage(request)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Batch capture failed.'
+      setStatus(message)
+    }
+  }
+
+  const handleCancelBatch = () => {
+    const request: CaptureJobsRequest = { type: 'CANCEL_BATCH' }
+    jobsPort.current?.postMessage(request)
+    setStatus('Cancelling...')
+  }
+
+  const handlePick = async () => {
+    try {
+      await startElementPicker()
+      window.close()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not start the picker.'
+      setStatus(message)
+    }
+  }
+
+  const handleClearSelection = async () => {
+    await clearPickedElement().catch(() => undefined)
+    setPickedElement(null)
   }
 
   return (
@@ -108,17 +466,54 @@ function App() {
               <div className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">
                 <AdjustmentsHorizontalIcon className="h-4 w-4 text-blue-600" aria-hidden="true" />
                 <span>Options</span>
+                <button
+                  type="button"
+                  className="ml-auto rounded-md px-1.5 py-0.5 normal-case tracking-normal text-blue-700 hover:bg-white"
+                  onClick={() => void chrome.runtime.openOptionsPage()}
+                >
+                  Manage presets
+                </button>
               </div>
               <div className="mt-3 flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  Preset
+                  <select
+                    className="h-7 min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                    value={activePreset?.id ?? ''}
+                    onChange={(event) => handlePresetChange(event.target.value)}
+                  >
+                    <option value="">Custom</option>
+                    {presets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {ruleMatchedPreset ? (
+                  <p className="text-[11px] text-slate-500">
+                    Using the {ruleMatchedPreset} preset from a domain rule for this site.
+                  </p>
+                ) : null}
                 <label className="flex items-center gap-2 text-xs text-slate-700">
                   <input
                     type="checkbox"
                     className="h-4 w-4 accent-blue-600"
-                    checked={removeOriginalStyles}
+                    checked={removeOriginalStyles || inlineComputedStyles}
+                    disabled={inlineComputedStyles}
                     onChange={(event) => setRemoveOriginalStyles(event.target.checked)}
                   />
                   Remove original styles (keep extracted CSS only)
                 </label>
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-600"
+                    checked={inlineComputedStyles}
+                    onChange={(event) => setInlineComputedStyles(event.target.checked)}
+                  />
+                  Freeze computed styles (pixel-faithful)
+                </label>
                 <label className="flex items-center gap-2 text-xs text-slate-700">
                   <input
                     type="checkbox"
@@ -126,7 +521,7 @@ function App() {
                     checked={useHostFetch}
                     onChange={(event) => setUseHostFetch(event.target.checked)}
                   />
-                  Use host-permissions CSS fetch
+                  Fetch assets through the extension
                 </label>
                 <label className="flex items-center gap-2 text-xs text-slate-700">
                   <input
@@ -146,26 +541,205 @@ function App() {
                   />
                   Add CSP (block scripts)
                 </label>
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-600"
+                    checked={inlineAssets}
+                    onChange={(event) => setInlineAssets(event.target.checked)}
+                  />
+                  Inline images and fonts (offline snapshot)
+                </label>
+                {inlineAssets ? (
+                  <label className="ml-6 flex items-center gap-2 text-xs text-slate-700">
+                    Max asset size
+                    <input
+                      type="number"
+                      min={1}
+                      className="h-7 w-20 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                      value={maxInlineAssetKb}
+                      onChange={(event) =>
+                        setMaxInlineAssetKb(Math.max(1, Number(event.target.value) || 1))
+                      }
+                    />
+                    KB
+                  </label>
+                ) : null}
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-600"
+                    checked={preserveFormState}
+                    onChange={(event) => setPreserveFormState(event.target.checked)}
+                  />
+                  Preserve form state
+                </label>
+                {preserveFormState ? (
+                  <label className="ml-6 flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={includePasswords}
+                      onChange={(event) => setIncludePasswords(event.target.checked)}
+                    />
+                    Include password values
+                  </label>
+                ) : null}
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-600"
+                    checked={rasterizeMedia}
+                    onChange={(event) => setRasterizeMedia(event.target.checked)}
+                  />
+                  Rasterize canvases and video frames
+                </label>
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-600"
+                    checked={resolveLazyContent}
+                    onChange={(event) => setResolveLazyContent(event.target.checked)}
+                  />
+                  Scroll the page to load lazy content first
+                </label>
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 accent-blue-600"
+                    checked={captureScreenshot}
+                    onChange={(event) => setCaptureScreenshot(event.target.checked)}
+                  />
+                  Capture a full-page screenshot
+                </label>
+                {captureScreenshot ? (
+                  <label className="ml-6 flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={embedScreenshot && !redactionEnabled}
+                      disabled={redactionEnabled}
+                      onChange={(event) => setEmbedScreenshot(event.target.checked)}
+                    />
+                    Embed as a toggleable reference overlay
+                  </label>
+                ) : null}
+                {captureScreenshot && redactionEnabled ? (
+                  <p className="ml-6 text-[11px] text-slate-500">
+                    The screenshot is not redacted, so it is not embedded while redaction is on.
+                  </p>
+                ) : null}
+                <p className="mt-1 text-xs font-semibold text-slate-700">Fetching assets</p>
+                <FetchPolicyEditor
+                  timeoutSeconds={fetchTimeoutSeconds}
+                  retries={fetchRetries}
+                  allowedHostsText={fetchAllowedHostsText}
+                  onTimeoutSecondsChange={setFetchTimeoutSeconds}
+                  onRetriesChange={setFetchRetries}
+                  onAllowedHostsTextChange={setFetchAllowedHostsText}
+                />
+                <p className="mt-1 text-xs font-semibold text-slate-700">Redact for sharing</p>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+                  <label className="flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={redactEmails}
+                      onChange={(event) => setRedactEmails(event.target.checked)}
+                    />
+                    Email addresses
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={redactPhoneNumbers}
+                      onChange={(event) => setRedactPhoneNumbers(event.target.checked)}
+                    />
+                    Phone numbers
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={redactCardNumbers}
+                      onChange={(event) => setRedactCardNumbers(event.target.checked)}
+                    />
+                    Card numbers
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={stripDataAttributes}
+                      onChange={(event) => setStripDataAttributes(event.target.checked)}
+                    />
+                    Strip data-* attributes
+                  </label>
+                  <label className="col-span-2 flex items-center gap-2 text-xs text-slate-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-blue-600"
+                      checked={stripUrlTokens}
+                      onChange={(event) => setStripUrlTokens(event.target.checked)}
+                    />
+                    Strip session and token values from URLs
+                  </label>
+                </div>
+                <RedactionEditor
+                  patternsText={redactPatternsText}
+                  selectorsText={redactSelectorsText}
+                  onPatternsTextChange={setRedactPatternsText}
+                  onSelectorsTextChange={setRedactSelectorsText}
+                />
+                <p className="mt-1 text-xs font-semibold text-slate-700">Remove page clutter</p>
+                <CleanupRulesEditor
+                  packs={cleanupPacks}
+                  rulesText={cleanupRulesText}
+                  onPacksChange={setCleanupPacks}
+                  onRulesTextChange={setCleanupRulesText}
+                />
               </div>
             </div>
             <div className="rounded-2xl border border-white/60 bg-white/70 p-4 shadow-sm">
               <div className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">
                 <ArrowDownTrayIcon className="h-4 w-4 text-slate-700" aria-hidden="true" />
                 <span>Actions</span>
+                <button
+                  type="button"
+                  className="ml-auto flex items-center gap-1 rounded-md px-1.5 py-0.5 normal-case tracking-normal text-blue-700 hover:bg-white"
+                  onClick={() => void openLibraryPage()}
+                >
+                  <BookOpenIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                  Open library
+                </button>
               </div>
               <div className="mt-3 flex flex-col gap-3">
-                <div className="grid grid-cols-3 gap-2">
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  Download as
+                  <select
+                    className="h-7 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                    value={downloadFormat}
+                    onChange={(event) => setDownloadFormat(event.target.value as DownloadFormat)}
+                  >
+                    <option value="html">Single HTML file</option>
+                    <option value="zip">ZIP bundle (index.html + assets)</option>
+                    <option value="mhtml">MHTML archive</option>
+                    <option value="warc">WARC archive</option>
+                  </select>
+                </label>
+                <div className="grid grid-cols-5 gap-2">
                   <Button
-                    onClick={handleDownload}
-                    disabled={isWorking}
+                    onClick={() => startCapture('download')}
+                    disabled={batchRunning || captureRunning}
                     className="h-11 rounded-2xl bg-blue-700 text-white hover:bg-blue-600"
                     aria-label="Download snapshot"
                   >
                     <ArrowDownTrayIcon className="h-4 w-4" aria-hidden="true" />
                   </Button>
                   <Button
-                    onClick={handleCopy}
-                    disabled={isWorking}
+                    onClick={() => startCapture('copy')}
+                    disabled={batchRunning || captureRunning}
                     variant="outline"
                     className="h-11 rounded-2xl"
                     aria-label="Copy snapshot to clipboard"
@@ -173,40 +747,222 @@ function App() {
                     <ClipboardDocumentIcon className="h-4 w-4" aria-hidden="true" />
                   </Button>
                   <Button
-                    onClick={handlePreview}
-                    disabled={isWorking}
+                    onClick={() => startCapture('preview')}
+                    disabled={batchRunning || captureRunning}
                     variant="outline"
                     className="h-11 rounded-2xl"
                     aria-label="Preview snapshot"
                   >
                     <EyeIcon className="h-4 w-4" aria-hidden="true" />
                   </Button>
+                  <Button
+                    onClick={() => startCapture('library')}
+                    disabled={batchRunning || captureRunning}
+                    variant="outline"
+                    className="h-11 rounded-2xl"
+                    aria-label="Save to library"
+                  >
+                    <ArchiveBoxArrowDownIcon className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                  <Button
+                    onClick={handlePick}
+                    disabled={batchRunning || captureRunning}
+                    variant="outline"
+                    className="h-11 rounded-2xl"
+                    aria-label="Pick an element to capture"
+                  >
+                    <CursorArrowRaysIcon className="h-4 w-4" aria-hidden="true" />
+                  </Button>
                 </div>
+                {pickedElement ? (
+                  <div className="flex items-center gap-2 rounded-xl border border-blue-200 bg-blue-50/80 px-3 py-2 text-xs text-blue-900">
+                    <CursorArrowRaysIcon className="h-4 w-4 text-blue-600" aria-hidden="true" />
+                    <span className="truncate">
+                      Capturing only <code className="font-mono">{pickedElement}</code>
+                    </span>
+                    <button
+                      type="button"
+                      className="ml-auto rounded-md p-1 text-blue-700 hover:bg-white"
+                      onClick={handleClearSelection}
+                      aria-label="Clear selected element"
+                    >
+                      <XMarkIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                    </button>
+                  </div>
+                ) : null}
                 <p className="text-xs text-slate-600">{status}</p>
+                {captureRunning ? (
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 flex-1 overflow-hidden rounded-full bg-slate-200">
+                      <div
+                        className={`h-full rounded-full bg-blue-600 transition-[width] ${
+                          captureJob.progress?.total ? '' : 'animate-pulse'
+                        }`}
+                        style={{ width: `${progressPercent(captureJob)}%` }}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      className="rounded-md border border-slate-300 bg-white px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-700 hover:bg-slate-50"
+                      onClick={handleCancel}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : null}
+                {redactionResult ? (
+                  <div className="flex flex-col gap-1 rounded-xl border border-emerald-200 bg-emerald-50/80 px-3 py-2 text-xs text-emerald-900">
+                    <div className="flex items-center gap-2">
+                      <ShieldCheckIcon className="h-4 w-4 text-emerald-600" aria-hidden="true" />
+                      <span className="font-semibold">Redaction report</span>
+                      <button
+                        type="button"
+                        className="ml-auto rounded-md border border-emerald-300 bg-white/90 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-emerald-800 hover:bg-white"
+                        onClick={() =>
+                          void downloadBlob(
+                            createRedactionReport(redactionResult),
+                            `${sanitizeFileName(redactionResult.title || 'pagesnap')}-redaction-report.json`,
+                          )
+                        }
+                      >
+                        Download
+                      </button>
+                    </div>
+                    <ul className="flex flex-wrap gap-x-3 gap-y-0.5 text-[11px]">
+                      {summarizeRedactions(redactionResult).map(({ kind, label, count }) => (
+                        <li key={kind}>
+                          {label}: <span className="font-semibold">{count}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
               </div>
             </div>
-            {cloneWarnings.length > 0 ? (
-              <div className="flex flex-col gap-2 rounded-md border border-amber-200 bg-amber-50/80 p-3 text-xs text-amber-800">
-                <div className="flex items-center gap-2">
-                  <ExclamationTriangleIcon className="h-4 w-4 text-amber-600" aria-hidden="true" />
-                  <span className="rounded-full bg-amber-500 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white">
-                    Warning
-                  </span>
-                  <p>Some assets could not be fetched ({cloneWarnings.length}).</p>
-                  <button
-                    type="button"
-                    className="ml-auto rounded-md border border-amber-300 bg-white/90 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-amber-800 hover:bg-white"
-                    onClick={() => navigator.clipboard.writeText(cloneWarnings.join('\n'))}
+            <div className="rounded-2xl border border-white/60 bg-white/70 p-4 shadow-sm">
+              <div className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">
+                <QueueListIcon className="h-4 w-4 text-slate-700" aria-hidden="true" />
+                <span>Batch</span>
+              </div>
+              <div className="mt-3 flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  Capture
+                  <select
+                    className="h-7 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                    value={batchSource}
+                    onChange={(event) => setBatchSource(event.target.value as BatchSource)}
                   >
-                    Copy
-                  </button>
+                    <option value="window">All tabs in this window</option>
+                    <option value="urls">A list of URLs</option>
+                  </select>
+                </label>
+                {batchSource === 'urls' ? (
+                  <textarea
+                    className="h-20 w-full resize-none rounded-md border border-slate-300 bg-white p-2 font-mono text-[11px] text-slate-800"
+                    placeholder="One URL per line"
+                    value={batchUrls}
+                    onChange={(event) => setBatchUrls(event.target.value)}
+                  />
+                ) : null}
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2 text-xs text-slate-700">
+                    Parallel
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      className="h-7 w-14 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                      value={batchConcurrency}
+                      onChange={(event) =>
+                        setBatchConcurrency(
+                          Math.min(10, Math.max(1, Number(event.target.value) || 1)),
+                        )
+                      }
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-slate-700">
+                    Timeout
+                    <input
+                      type="number"
+                      min={5}
+                      className="h-7 w-16 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                      value={batchTimeoutSeconds}
+                      onChange={(event) =>
+                        setBatchTimeoutSeconds(Math.max(5, Number(event.target.value) || 5))
+                      }
+                    />
+                    s
+                  </label>
                 </div>
-                <textarea
-                  className="h-24 w-full resize-none rounded-md border border-amber-200 bg-white/90 p-2 font-mono text-[11px] text-amber-900"
-                  readOnly
-                  value={cloneWarnings.join('\n')}
-                />
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  Save as
+                  <select
+                    className="h-7 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                    value={batchOutput}
+                    onChange={(event) => setBatchOutput(event.target.value as BatchOutput)}
+                  >
+                    <option value="zip">One ZIP file</option>
+                    <option value="files">Individual HTML files</option>
+                  </select>
+                </label>
+                {batchRunning ? (
+                  <Button
+                    onClick={handleCancelBatch}
+                    variant="outline"
+                    className="h-9 rounded-2xl text-xs"
+                  >
+                    Cancel batch capture
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleBatch}
+                    disabled={captureRunning}
+                    variant="outline"
+                    className="h-9 rounded-2xl text-xs"
+                  >
+                    Start batch capture
+                  </Button>
+                )}
+                {batchItems.length > 0 ? (
+                  <ul className="flex max-h-40 flex-col gap-1 overflow-y-auto text-[11px]">
+                    {batchItems.map((item, index) => (
+                      <li
+                        key={`${index}-${item.url}`}
+                        className="flex items-center gap-2 rounded-md bg-white/80 px-2 py-1"
+                        title={item.error ?? undefined}
+                      >
+                        <span className="truncate text-slate-700">{item.title || item.url}</span>
+                        <span
+                          className={`ml-auto shrink-0 font-semibold ${
+                            item.status === 'failed'
+                              ? 'text-red-700'
+                              : item.status === 'done'
+                                ? 'text-emerald-700'
+                                : 'text-slate-500'
+                          }`}
+                        >
+                          {BATCH_STATUS_LABELS[item.status]}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : null}
               </div>
+            </div>
+            {cloneDiagnostics.length > 0 ? (
+              <DiagnosticsPanel
+                diagnostics={cloneDiagnostics}
+                onDownloadReport={() =>
+                  void downloadBlob(
+                    createDiagnosticsReport({
+                      url: diagnosticsSource?.url ?? null,
+                      title: diagnosticsSource?.title ?? null,
+                      diagnostics: cloneDiagnostics,
+                    }),
+                    `${sanitizeFileName(diagnosticsSource?.title || 'pagesnap')}-diagnostics.json`,
+                  )
+                }
+              />
             ) : null}
           </div>
         </CardContent>
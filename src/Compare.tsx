@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react'
+import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { SnapshotPicker, type SnapshotSource } from '@/components/snapshot-picker'
+import { listLibrary, loadLibraryHtml, type LibraryEntry } from '@/lib/library'
+import {
+  diffSnapshots,
+  summarizeSnapshotDiff,
+  type DiffChange,
+  type SnapshotDiff,
+} from '@/lib/snapshot-diff'
+
+const MAX_LISTED_CHANGES = 300
+
+const CHANGE_STYLES: Record<DiffChange, string> = {
+  added: 'bg-emerald-600 text-white',
+  removed: 'bg-red-600 text-white',
+  changed: 'bg-amber-500 text-white',
+}
+
+const ChangeBadge = ({ change }: { change: DiffChange }) => (
+  <span
+    className={`shrink-0 rounded-full px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-wide ${CHANGE_STYLES[change]}`}
+  >
+    {change}
+  </span>
+)
+
+const entryName = (entry: LibraryEntry) =>
+  `${entry.title || entry.url || 'Untitled page'} (${new Date(entry.capturedAt).toLocaleString()})`
+
+function Compare() {
+  const [entries, setEntries] = useState<LibraryEntry[]>([])
+  const [beforeId, setBeforeId] = useState('')
+  const [afterId, setAfterId] = useState('')
+  const [before, setBefore] = useState<SnapshotSource | null>(null)
+  const [after, setAfter] = useState<SnapshotSource | null>(null)
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null)
+  const [status, setStatus] = useState('')
+
+  const showError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : 'Something went wrong.'
+    setStatus(message)
+  }
+
+  const loadEntry = (
+    entry: LibraryEntry,
+    setId: (id: string) => void,
+    setSource: (source: SnapshotSource) => void,
+  ) => {
+    setId(entry.id)
+    setDiff(null)
+    return loadLibraryHtml(entry.id).then((html) => setSource({ name: entryName(entry), html }))
+  }
+
+  const loadFile = (
+    file: File,
+    setId: (id: string) => void,
+    setSource: (source: SnapshotSource) => void,
+  ) => {
+    setId('')
+    setDiff(null)
+    file
+      .text()
+      .then((html) => setSource({ name: file.name, html }))
+      .catch(showError)
+  }
+
+  // `?before=<id>` preselects a library snapshot and pairs it with the newest capture of its URL.
+  useEffect(() => {
+    const requestedId = new URLSearchParams(location.search).get('before')
+    listLibrary()
+      .then(async (nextEntries) => {
+        setEntries(nextEntries)
+        const requested = nextEntries.find((entry) => entry.id === requestedId)
+        if (!requested) {
+          return
+        }
+        const newest = nextEntries
+          .filter((entry) => entry.id !== requested.id && entry.url === requested.url)
+          .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt))[0]
+        setBeforeId(requested.id)
+        setBefore({ name: entryName(requested), html: await loadLibraryHtml(requested.id) })
+        if (newest) {
+          setAfterId(newest.id)
+          setAfter({ name: entryName(newest), html: await loadLibraryHtml(newest.id) })
+        }
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Could not load the library.'
+        setStatus(message)
+      })
+  }, [])
+
+  const handleCompare = () => {
+    if (!before || !after) {
+      return
+    }
+    try {
+      const nextDiff = diffSnapshots(before.html, after.html)
+      setDiff(nextDiff)
+      setStatus('')
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const summary = diff ? summarizeSnapshotDiff(diff) : null
+
+  return (
+    <div className="mx-auto flex w-full max-w-6xl items-stretch">
+      <Card className="relative w-full rounded-[28px] border border-white/70 bg-white/80 px-6 py-6 shadow-2xl backdrop-blur-xl">
+        <CardHeader>
+          <div className="flex items-start gap-3">
+            <img
+              src="/logo.svg"
+              alt="PageSnap logo"
+              className="h-10 w-10 rounded-2xl border border-white/70 bg-white/80 p-1 shadow-sm"
+            />
+            <div>
+              <CardTitle className="text-2xl text-slate-900">Compare snapshots</CardTitle>
+              <CardDescription className="text-sm text-slate-600">
+                Pick two snapshots of a page to see what changed between them.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mt-4 flex flex-col gap-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <SnapshotPicker
+                label="Before"
+                entries={entries}
+                selectedId={beforeId}
+                source={before}
+                onSelectEntry={(entry) =>
+                  void loadEntry(entry, setBeforeId, setBefore).catch(showError)
+                }
+                onSelectFile={(file) => loadFile(file, setBeforeId, setBefore)}
+              />
+              <SnapshotPicker
+                label="After"
+                entries={entries}
+                selectedId={afterId}
+                source={after}
+                onSelectEntry={(entry) =>
+                  void loadEntry(entry, setAfterId, setAfter).catch(showError)
+                }
+                onSelectFile={(file) => loadFile(file, setAfterId, setAfter)}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button
+                onClick={handleCompare}
+                disabled={!before || !after}
+                className="h-10 rounded-2xl bg-blue-700 px-4 text-white hover:bg-blue-600"
+              >
+                <ArrowsRightLeftIcon className="h-4 w-4" aria-hidden="true" />
+                Compare
+              </Button>
+              {summary ? (
+                <p className="text-sm text-slate-600">
+                  DOM: +{summary.dom.added} −{summary.dom.removed} ~{summary.dom.changed} · Text: +
+                  {summary.text.added} −{summary.text.removed} · CSS: +{summary.css.added} −
+                  {summary.css.removed} ~{summary.css.changed}
+                </p>
+              ) : null}
+            </div>
+            {status ? <p className="text-sm text-slate-600">{status}</p> : null}
+            {diff ? (
+              <>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+                  <span className="flex items-center gap-1">
+                    <span className="h-3 w-3 rounded-sm border-2 border-emerald-600" />
+                    Added
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="h-3 w-3 rounded-sm border-2 border-red-600" />
+                    Removed
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <span className="h-3 w-3 rounded-sm border-2 border-dashed border-amber-600" />
+                    Changed
+                  </span>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {[
+                    { title: 'Before', html: diff.beforeHtml },
+                    { title: 'After', html: diff.afterHtml },
+                  ].map(({ title, html }) => (
+                    <div key={title} className="flex flex-col gap-1">
+                      <p className="text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">
+                        {title}
+                      </p>
+                      <iframe
+                        title={`${title} snapshot`}
+                        sandbox=""
+                        srcDoc={html}
+                        className="h-[600px] w-full rounded-xl border border-slate-200 bg-white"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <details
+                  open
+                  className="rounded-2xl border border-white/70 bg-white/80 p-4 text-xs"
+                >
+                  <summary className="cursor-pointer select-none font-semibold text-slate-800">
+                    DOM changes ({diff.dom.length})
+                  </summary>
+                  <ul className="mt-2 flex max-h-72 flex-col gap-1 overflow-y-auto">
+                    {diff.dom.slice(0, MAX_LISTED_CHANGES).map((entry, index) => (
+                      <li key={index} className="flex items-start gap-2 text-[11px] text-slate-700">
+                        <ChangeBadge change={entry.change} />
+                        <span className="min-w-0 break-words">
+                          <code className="block truncate font-mono text-slate-500">
+                            {entry.path}
+                          </code>
+                          {entry.detail}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+                <details className="rounded-2xl border border-white/70 bg-white/80 p-4 text-xs">
+                  <summary className="cursor-pointer select-none font-semibold text-slate-800">
+                    Text changes ({diff.text.length})
+                  </summary>
+                  <ul className="mt-2 flex max-h-72 flex-col gap-1 overflow-y-auto">
+                    {diff.text.slice(0, MAX_LISTED_CHANGES).map((entry, index) => (
+                      <li key={index} className="flex items-start gap-2 text-[11px] text-slate-700">
+                        <ChangeBadge change={entry.change} />
+                        <span className="min-w-0 break-words">{entry.text}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+                <details className="rounded-2xl border border-white/70 bg-white/80 p-4 text-xs">
+                  <summary className="cursor-pointer select-none font-semibold text-slate-800">
+                    CSS rule changes ({diff.css.length})
+                  </summary>
+                  <ul className="mt-2 flex max-h-72 flex-col gap-2 overflow-y-auto">
+                    {diff.css.slice(0, MAX_LISTED_CHANGES).map((entry, index) => (
+                      <li key={index} className="flex items-start gap-2 text-[11px] text-slate-700">
+                        <ChangeBadge change={entry.change} />
+                        <span className="min-w-0 flex-1">
+                          <code className="block truncate font-mono font-semibold">
+                            {entry.selector}
+                          </code>
+                          {entry.before ? (
+                            <pre className="mt-1 overflow-x-auto whitespace-pre-wrap rounded-md bg-red-50 p-1 font-mono text-red-900">
+                              {entry.before}
+                            </pre>
+                          ) : null}
+                          {entry.after ? (
+                            <pre className="mt-1 overflow-x-auto whitespace-pre-wrap rounded-md bg-emerald-50 p-1 font-mono text-emerald-900">
+                              {entry.after}
+                            </pre>
+                          ) : null}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              </>
+            ) : null}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default Compare
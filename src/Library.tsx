@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  ArrowDownTrayIcon,
+  ArrowsRightLeftIcon,
+  ExclamationTriangleIcon,
+  EyeIcon,
+  MagnifyingGlassIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DiagnosticsPanel } from '@/components/diagnostics-panel'
+import { downloadBlob, downloadHtml, sanitizeFileName } from '@/lib/cloner'
+import { countIssues, createDiagnosticsReport } from '@/lib/diagnostics'
+import {
+  deleteFromLibrary,
+  getLibraryUsage,
+  listLibrary,
+  loadLibraryHtml,
+  type LibraryEntry,
+} from '@/lib/library'
+import { openComparePage } from '@/lib/snapshot-diff'
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`
+  }
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+const matchesQuery = (entry: LibraryEntry, query: string) => {
+  const needle = query.trim().toLowerCase()
+  return (
+    !needle ||
+    (entry.title ?? '').toLowerCase().includes(needle) ||
+    (entry.url ?? '').toLowerCase().includes(needle)
+  )
+}
+
+function Library() {
+  const [entries, setEntries] = useState<LibraryEntry[]>([])
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null)
+  const [query, setQuery] = useState('')
+  const [status, setStatus] = useState('Loading snapshots...')
+
+  const refresh = () =>
+    Promise.all([listLibrary(), getLibraryUsage()])
+      .then(([nextEntries, nextUsage]) => {
+        setEntries(nextEntries)
+        setUsage(nextUsage)
+        setStatus(nextEntries.length === 0 ? 'No snapshots saved yet.' : '')
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Could not load the library.'
+        setStatus(message)
+      })
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const visibleEntries = useMemo(
+    () => entries.filter((entry) => matchesQuery(entry, query)),
+    [entries, query],
+  )
+
+  const handlePreview = async (entry: LibraryEntry) => {
+    const html = await loadLibraryHtml(entry.id)
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }))
+    chrome.tabs.create({ url }, () => {
+      setTimeout(() => URL.revokeObjectURL(url), 10_000)
+    })
+  }
+
+  const handleDownload = async (entry: LibraryEntry) => {
+    const html = await loadLibraryHtml(entry.id)
+    await downloadHtml(html, `${sanitizeFileName(entry.title || 'pagesnap')}.html`)
+  }
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete the snapshot of "${entry.title || entry.url}"?`)) {
+      return
+    }
+    await deleteFromLibrary(entry.id)
+    await refresh()
+  }
+
+  const runAction = (action: (entry: LibraryEntry) => Promise<void>, entry: LibraryEntry) => {
+    action(entry).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Something went wrong.'
+      setStatus(message)
+    })
+  }
+
+  const usagePercent =
+    usage && usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0
+
+  return (
+    <div className="mx-auto flex w-full max-w-4xl items-stretch">
+      <Card className="relative w-full rounded-[28px] border border-white/70 bg-white/80 px-6 py-6 shadow-2xl backdrop-blur-xl">
+        <CardHeader>
+          <div className="flex items-start gap-3">
+            <img
+              src="/logo.svg"
+              alt="PageSnap logo"
+              className="h-10 w-10 rounded-2xl border border-white/70 bg-white/80 p-1 shadow-sm"
+            />
+            <div>
+              <CardTitle className="text-2xl text-slate-900">Snapshot library</CardTitle>
+              <CardDescription className="text-sm text-slate-600">
+                Snapshots saved from the PageSnap popup.
+              </CardDescription>
+            </div>
+            <button
+              type="button"
+              className="ml-auto flex items-center gap-1 rounded-md px-1.5 py-0.5 text-sm text-blue-700 hover:bg-white"
+              onClick={() => void openComparePage()}
+            >
+              <ArrowsRightLeftIcon className="h-4 w-4" aria-hidden="true" />
+              Compare snapshots
+            </button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mt-4 flex flex-col gap-4">
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex flex-1 items-center gap-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm">
+                <MagnifyingGlassIcon className="h-4 w-4 text-slate-500" aria-hidden="true" />
+                <input
+                  type="search"
+                  className="w-full bg-transparent outline-none"
+                  placeholder="Search by title or URL"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                />
+              </label>
+              {usage ? (
+                <div className="flex w-56 flex-col gap-1 text-xs text-slate-600">
+                  <div className="h-2 overflow-hidden rounded-full bg-slate-200">
+                    <div
+                      className="h-full rounded-full bg-blue-600"
+                      style={{ width: `${usagePercent}%` }}
+                    />
+                  </div>
+                  <span>
+                    {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+                  </span>
+                </div>
+              ) : null}
+            </div>
+            {status ? <p className="text-sm text-slate-600">{status}</p> : null}
+            <ul className="flex flex-col gap-3">
+              {visibleEntries.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="rounded-2xl border border-white/70 bg-white/80 p-4 shadow-sm"
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-semibold text-slate-900">
+                        {entry.title || 'Untitled page'}
+                      </p>
+                      <p className="truncate text-xs text-slate-600">{entry.url}</p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {new Date(entry.capturedAt).toLocaleString()} · {formatBytes(entry.size)}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => runAction(handlePreview, entry)}
+                        variant="outline"
+                        className="h-9 w-9 rounded-xl p-0"
+                        aria-label="Preview snapshot"
+                      >
+                        <EyeIcon className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        onClick={() => void openComparePage(entry.id)}
+                        variant="outline"
+                        className="h-9 w-9 rounded-xl p-0"
+                        aria-label="Compare with another snapshot"
+                      >
+                        <ArrowsRightLeftIcon className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        onClick={() => runAction(handleDownload, entry)}
+                        className="h-9 w-9 rounded-xl bg-blue-700 p-0 text-white hover:bg-blue-600"
+                        aria-label="Download snapshot"
+                      >
+                        <ArrowDownTrayIcon className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                      <Button
+                        onClick={() => runAction(handleDelete, entry)}
+                        variant="outline"
+                        className="h-9 w-9 rounded-xl p-0 text-red-700"
+                        aria-label="Delete snapshot"
+                      >
+                        <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                      </Button>
+                    </div>
+                  </div>
+                  <details className="mt-2 text-xs text-slate-600">
+                    <summary className="cursor-pointer select-none">
+                      {countIssues(entry.diagnostics) > 0 ? (
+                        <span className="inline-flex items-center gap-1 text-amber-700">
+                          <ExclamationTriangleIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                          {countIssues(entry.diagnostics)} warnings
+                        </span>
+                      ) : (
+                        'Details'
+                      )}
+                    </summary>
+                    {entry.diagnostics.length > 0 ? (
+                      <div className="mt-2">
+                        <DiagnosticsPanel
+                          diagnostics={entry.diagnostics}
+                          onDownloadReport={() =>
+                            void downloadBlob(
+                              createDiagnosticsReport(entry),
+                              `${sanitizeFileName(entry.title || 'pagesnap')}-diagnostics.json`,
+                            )
+                          }
+                        />
+                      </div>
+                    ) : null}
+                    <pre className="mt-2 overflow-x-auto rounded-md bg-slate-50 p-2 font-mono text-[11px]">
+                      {JSON.stringify(entry.options, null, 2)}
+                    </pre>
+                  </details>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default Library
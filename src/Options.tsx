@@ -0,0 +1,405 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  PlusIcon,
+  TrashIcon,
+} from '@heroicons/react/24/outline'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CleanupRulesEditor } from '@/components/cleanup-rules-editor'
+import { FetchPolicyEditor } from '@/components/fetch-policy-editor'
+import { RedactionEditor } from '@/components/redaction-editor'
+import { formatAllowedHosts, parseAllowedHosts } from '@/lib/asset-fetch'
+import { formatCleanupRules, parseCleanupRules } from '@/lib/cleanup'
+import { downloadBlob, type CloneOptions, type DownloadFormat } from '@/lib/cloner'
+import { formatRedactionLines, parseRedactionLines } from '@/lib/redaction'
+import {
+  DEFAULT_CLONE_OPTIONS,
+  exportSettings,
+  importSettings,
+  loadSettings,
+  saveDomainRules,
+  savePresets,
+  type DomainRule,
+  type Preset,
+} from '@/lib/settings'
+
+type BooleanOptionKey = {
+  [Key in keyof CloneOptions]: CloneOptions[Key] extends boolean ? Key : never
+}[keyof CloneOptions]
+
+const OPTION_FIELDS: Array<{ key: BooleanOptionKey; label: string }> = [
+  { key: 'removeOriginalStyles', label: 'Keep only used CSS' },
+  { key: 'inlineComputedStyles', label: 'Freeze computed styles' },
+  { key: 'useHostFetch', label: 'Fetch assets through the extension' },
+  { key: 'removeScripts', label: 'Remove scripts' },
+  { key: 'addCsp', label: 'Add CSP meta' },
+  { key: 'inlineAssets', label: 'Inline images and fonts' },
+  { key: 'preserveFormState', label: 'Preserve form state' },
+  { key: 'includePasswords', label: 'Include password values' },
+  { key: 'rasterizeMedia', label: 'Rasterize canvases and video' },
+  { key: 'resolveLazyContent', label: 'Scroll to load lazy content' },
+  { key: 'redactEmails', label: 'Redact email addresses' },
+  { key: 'redactPhoneNumbers', label: 'Redact phone numbers' },
+  { key: 'redactCardNumbers', label: 'Redact card numbers' },
+  { key: 'stripDataAttributes', label: 'Strip data-* attributes' },
+  { key: 'stripUrlTokens', label: 'Strip URL tokens' },
+]
+
+type PresetDrafts = {
+  cleanupRules: string
+  redactPatterns: string
+  redactSelectors: string
+  fetchAllowedHosts: string
+}
+
+const EMPTY_DRAFTS: PresetDrafts = {
+  cleanupRules: '',
+  redactPatterns: '',
+  redactSelectors: '',
+  fetchAllowedHosts: '',
+}
+
+const createDrafts = (preset: Preset): PresetDrafts => ({
+  cleanupRules: formatCleanupRules(preset.options.cleanupRules),
+  redactPatterns: formatRedactionLines(preset.options.redactPatterns),
+  redactSelectors: formatRedactionLines(preset.options.redactSelectors),
+  fetchAllowedHosts: formatAllowedHosts(preset.options.fetchAllowedHosts),
+})
+
+const FORMAT_LABELS: Record<DownloadFormat, string> = {
+  html: 'Single HTML file',
+  zip: 'ZIP bundle',
+  mhtml: 'MHTML archive',
+  warc: 'WARC archive',
+}
+
+function Options() {
+  const [presets, setPresets] = useState<Preset[]>([])
+  const [domainRules, setDomainRules] = useState<DomainRule[]>([])
+  const [drafts, setDrafts] = useState<Record<string, PresetDrafts>>({})
+  const [status, setStatus] = useState('')
+  const importInput = useRef<HTMLInputElement>(null)
+
+  const reload = () =>
+    loadSettings()
+      .then((settings) => {
+        setPresets(settings.presets)
+        setDrafts(
+          Object.fromEntries(settings.presets.map((preset) => [preset.id, createDrafts(preset)])),
+        )
+        setDomainRules(settings.domainRules)
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Could not load settings.'
+        setStatus(message)
+      })
+
+  useEffect(() => {
+    reload()
+  }, [])
+
+  const updatePreset = (id: string, patch: Partial<Preset>) =>
+    setPresets((current) =>
+      current.map((preset) => (preset.id === id ? { ...preset, ...patch } : preset)),
+    )
+
+  const updatePresetOption = <Key extends keyof CloneOptions>(
+    preset: Preset,
+    key: Key,
+    value: CloneOptions[Key],
+  ) => updatePreset(preset.id, { options: { ...preset.options, [key]: value } })
+
+  const updateDraft = (id: string, patch: Partial<PresetDrafts>) =>
+    setDrafts((current) => ({ ...current, [id]: { ...EMPTY_DRAFTS, ...current[id], ...patch } }))
+
+  const updateRule = (id: string, patch: Partial<DomainRule>) =>
+    setDomainRules((current) =>
+      current.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)),
+    )
+
+  const handleAddPreset = () =>
+    setPresets((current) => [
+      ...current,
+      {
+        id: crypto.randomUUID(),
+        name: `Preset ${current.length + 1}`,
+        format: 'html',
+        options: DEFAULT_CLONE_OPTIONS,
+      },
+    ])
+
+  const handleDeletePreset = (id: string) => {
+    setPresets((current) => current.filter((preset) => preset.id !== id))
+    setDomainRules((current) => current.filter((rule) => rule.presetId !== id))
+  }
+
+  const handleAddRule = () =>
+    setDomainRules((current) => [
+      ...current,
+      { id: crypto.randomUUID(), pattern: '*.example.com', presetId: presets[0]?.id ?? '' },
+    ])
+
+  const handleSave = async () => {
+    try {
+      await savePresets(
+        presets.map((preset) => ({
+          ...preset,
+          options: {
+            ...preset.options,
+            cleanupRules: parseCleanupRules(drafts[preset.id]?.cleanupRules ?? ''),
+            redactPatterns: parseRedactionLines(drafts[preset.id]?.redactPatterns ?? ''),
+            redactSelectors: parseRedactionLines(drafts[preset.id]?.redactSelectors ?? ''),
+            fetchAllowedHosts: parseAllowedHosts(drafts[preset.id]?.fetchAllowedHosts ?? ''),
+          },
+        })),
+      )
+      await saveDomainRules(domainRules.filter((rule) => rule.pattern.trim() && rule.presetId))
+      setStatus('Settings saved.')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not save settings.'
+      setStatus(message)
+    }
+  }
+
+  const handleExport = async () => {
+    const json = JSON.stringify(await exportSettings(), null, 2)
+    await downloadBlob(new Blob([json], { type: 'application/json' }), 'pagesnap-settings.json')
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      await importSettings(await file.text())
+      await reload()
+      setStatus('Settings imported.')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not import settings.'
+      setStatus(message)
+    }
+  }
+
+  return (
+    <div className="mx-auto flex w-full max-w-4xl items-stretch">
+      <Card className="relative w-full rounded-[28px] border border-white/70 bg-white/80 px-6 py-6 shadow-2xl backdrop-blur-xl">
+        <CardHeader>
+          <div className="flex items-start gap-3">
+            <img
+              src="/logo.svg"
+              alt="PageSnap logo"
+              className="h-10 w-10 rounded-2xl border border-white/70 bg-white/80 p-1 shadow-sm"
+            />
+            <div>
+              <CardTitle className="text-2xl text-slate-900">PageSnap options</CardTitle>
+              <CardDescription className="text-sm text-slate-600">
+                Presets and per-domain rules, synced with your browser profile.
+              </CardDescription>
+            </div>
+            <div className="ml-auto flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => void handleExport()}>
+                <ArrowDownTrayIcon className="h-4 w-4" aria-hidden="true" />
+                Export
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => importInput.current?.click()}>
+                <ArrowUpTrayIcon className="h-4 w-4" aria-hidden="true" />
+                Import
+              </Button>
+              <input
+                ref={importInput}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  event.target.value = ''
+                  if (file) {
+                    void handleImport(file)
+                  }
+                }}
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mt-4 flex flex-col gap-6">
+            <section className="flex flex-col gap-3">
+              <div className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">
+                <span>Presets</span>
+                <button
+                  type="button"
+                  className="ml-auto flex items-center gap-1 rounded-md px-1.5 py-0.5 normal-case tracking-normal text-blue-700 hover:bg-white"
+                  onClick={handleAddPreset}
+                >
+                  <PlusIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                  Add preset
+                </button>
+              </div>
+              {presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-white/70 bg-white/80 p-4 shadow-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      className="h-8 flex-1 rounded-md border border-slate-300 bg-white px-2 text-sm font-semibold"
+                      value={preset.name}
+                      onChange={(event) => updatePreset(preset.id, { name: event.target.value })}
+                      aria-label="Preset name"
+                    />
+                    <select
+                      className="h-8 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                      value={preset.format}
+                      onChange={(event) =>
+                        updatePreset(preset.id, { format: event.target.value as DownloadFormat })
+                      }
+                      aria-label="Download format"
+                    >
+                      {Object.entries(FORMAT_LABELS).map(([format, label]) => (
+                        <option key={format} value={format}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="rounded-md p-1.5 text-red-700 hover:bg-white"
+                      onClick={() => handleDeletePreset(preset.id)}
+                      aria-label="Delete preset"
+                    >
+                      <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                    {OPTION_FIELDS.map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-2 text-xs text-slate-700">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 accent-blue-600"
+                          checked={preset.options[key]}
+                          onChange={(event) =>
+                            updatePresetOption(preset, key, event.target.checked)
+                          }
+                        />
+                        {label}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-2 text-xs text-slate-700">
+                      Max inline
+                      <input
+                        type="number"
+                        min={1}
+                        className="h-7 w-20 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                        value={Math.round(preset.options.maxInlineAssetBytes / 1024)}
+                        onChange={(event) =>
+                          updatePresetOption(
+                            preset,
+                            'maxInlineAssetBytes',
+                            Math.max(1, Number(event.target.value) || 1) * 1024,
+                          )
+                        }
+                      />
+                      KB
+                    </label>
+                  </div>
+                  <CleanupRulesEditor
+                    packs={preset.options.cleanupPacks}
+                    rulesText={drafts[preset.id]?.cleanupRules ?? ''}
+                    onPacksChange={(packs) => updatePresetOption(preset, 'cleanupPacks', packs)}
+                    onRulesTextChange={(text) => updateDraft(preset.id, { cleanupRules: text })}
+                  />
+                  <RedactionEditor
+                    patternsText={drafts[preset.id]?.redactPatterns ?? ''}
+                    selectorsText={drafts[preset.id]?.redactSelectors ?? ''}
+                    onPatternsTextChange={(text) =>
+                      updateDraft(preset.id, { redactPatterns: text })
+                    }
+                    onSelectorsTextChange={(text) =>
+                      updateDraft(preset.id, { redactSelectors: text })
+                    }
+                  />
+                  <FetchPolicyEditor
+                    timeoutSeconds={Math.round(preset.options.fetchTimeoutMs / 1000)}
+                    retries={preset.options.fetchRetries}
+                    allowedHostsText={drafts[preset.id]?.fetchAllowedHosts ?? ''}
+                    onTimeoutSecondsChange={(seconds) =>
+                      updatePresetOption(preset, 'fetchTimeoutMs', seconds * 1000)
+                    }
+                    onRetriesChange={(retries) =>
+                      updatePresetOption(preset, 'fetchRetries', retries)
+                    }
+                    onAllowedHostsTextChange={(text) =>
+                      updateDraft(preset.id, { fetchAllowedHosts: text })
+                    }
+                  />
+                </div>
+              ))}
+            </section>
+            <section className="flex flex-col gap-3">
+              <div className="flex items-center gap-2 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">
+                <span>Domain rules</span>
+                <button
+                  type="button"
+                  className="ml-auto flex items-center gap-1 rounded-md px-1.5 py-0.5 normal-case tracking-normal text-blue-700 hover:bg-white"
+                  onClick={handleAddRule}
+                  disabled={presets.length === 0}
+                >
+                  <PlusIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                  Add rule
+                </button>
+              </div>
+              <p className="text-xs text-slate-600">
+                The first rule whose hostname pattern matches the page selects its preset. Use{' '}
+                <code className="font-mono">*</code> as a wildcard, e.g.{' '}
+                <code className="font-mono">*.example.com</code>.
+              </p>
+              {domainRules.map((rule) => (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <input
+                    className="h-8 flex-1 rounded-md border border-slate-300 bg-white px-2 font-mono text-xs"
+                    value={rule.pattern}
+                    onChange={(event) => updateRule(rule.id, { pattern: event.target.value })}
+                    aria-label="Hostname pattern"
+                  />
+                  <select
+                    className="h-8 rounded-md border border-slate-300 bg-white px-2 text-xs"
+                    value={rule.presetId}
+                    onChange={(event) => updateRule(rule.id, { presetId: event.target.value })}
+                    aria-label="Preset"
+                  >
+                    {presets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.name}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    className="rounded-md p-1.5 text-red-700 hover:bg-white"
+                    onClick={() =>
+                      setDomainRules((current) => current.filter(({ id }) => id !== rule.id))
+                    }
+                    aria-label="Delete rule"
+                  >
+                    <TrashIcon className="h-4 w-4" aria-hidden="true" />
+                  </button>
+                </div>
+              ))}
+            </section>
+            <div className="flex items-center gap-3">
+              <Button
+                onClick={() => void handleSave()}
+                className="bg-blue-700 text-white hover:bg-blue-600"
+              >
+                Save settings
+              </Button>
+              {status ? <p className="text-sm text-slate-600">{status}</p> : null}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default Options
@@ -0,0 +1,426 @@
+import { fetchAssetForSender, type FetchAssetRequest } from '@/lib/asset-fetch'
+import { aggregateBatchDiagnostics, downloadBatch, runBatchCapture } from '@/lib/batch'
+import {
+  CAPTURE_JOBS_PORT,
+  formatCaptureProgress,
+  type BatchJob,
+  type BatchRequest,
+  type CaptureAction,
+  type CaptureJob,
+  type CaptureJobsRequest,
+  type CaptureJobsUpdate,
+  type CaptureRequest,
+} from '@/lib/capture-jobs'
+import { cloneTab, downloadBlob, downloadSnapshot, sanitizeFileName } from '@/lib/cloner'
+import { countIssues, createDiagnostic } from '@/lib/diagnostics'
+import { saveToLibrary } from '@/lib/library'
+import { clearPickedElement, startElementPicker } from '@/lib/picker'
+import { hasRedaction } from '@/lib/redaction'
+import {
+  captureFullPageScreenshot,
+  embedReferenceOverlay,
+  type FullPageScreenshot,
+} from '@/lib/screenshot'
+import { loadCaptureSettingsForUrl } from '@/lib/settings'
+
+type ContextTargetWindow = Window & {
+  __pagesnapContextTarget?: Element | null
+}
+
+const MENU_SNAPSHOT_PAGE = 'snapshot-page'
+const MENU_SNAPSHOT_ELEMENT = 'snapshot-element'
+const BADGE_CLEAR_DELAY_MS = 5000
+
+const CAPTURE_DONE_MESSAGES: Record<CaptureAction, string> = {
+  download: 'Download ready. Check your downloads folder.',
+  copy: 'Snapshot ready.',
+  preview: 'Snapshot ready.',
+  library: 'Snapshot saved to the library.',
+}
+
+const setBadge = async (tabId: number, text: string, color: string, title: string) => {
+  await chrome.action.setBadgeBackgroundColor({ tabId, color })
+  await chrome.action.setBadgeText({ tabId, text })
+  await chrome.action.setTitle({ tabId, title })
+}
+
+const clearBadgeLater = (tabId: number) => {
+  setTimeout(() => {
+    chrome.action.setBadgeText({ tabId, text: '' }).catch(() => undefined)
+    chrome.action.setTitle({ tabId, title: 'PageSnap' }).catch(() => undefined)
+  }, BADGE_CLEAR_DELAY_MS)
+}
+
+const captureJobs = new Map<number, CaptureJob>()
+const captureControllers = new Map<number, AbortController>()
+const captureSubscribers = new Map<chrome.runtime.Port, number>()
+
+const publishCaptureJob = (job: CaptureJob) => {
+  captureJobs.set(job.tabId, job)
+  const update: CaptureJobsUpdate = { type: 'CAPTURE_JOB', job }
+  captureSubscribers.forEach((tabId, port) => {
+    if (tabId === job.tabId) {
+      port.postMessage(update)
+    }
+  })
+}
+
+const runCaptureJob = async ({
+  tabId,
+  action,
+  format,
+  options,
+  captureScreenshot,
+  embedScreenshot,
+}: CaptureRequest) => {
+  if (captureControllers.has(tabId)) {
+    return
+  }
+  const controller = new AbortController()
+  captureControllers.set(tabId, controller)
+  let job: CaptureJob = {
+    id: crypto.randomUUID(),
+    tabId,
+    action,
+    status: 'running',
+    progress: null,
+    message: 'Preparing the page snapshot...',
+    result: null,
+  }
+  const updateJob = (patch: Partial<CaptureJob>) => {
+    job = { ...job, ...patch }
+    publishCaptureJob(job)
+  }
+  publishCaptureJob(job)
+
+  try {
+    await setBadge(tabId, '...', '#2563eb', 'PageSnap: capturing...')
+    const snapshot = await cloneTab(tabId, options, {
+      signal: controller.signal,
+      onProgress: (progress) => updateJob({ progress, message: formatCaptureProgress(progress) }),
+    })
+    let { html, diagnostics } = snapshot
+    let screenshot: FullPageScreenshot | null = null
+    if (captureScreenshot) {
+      controller.signal.throwIfAborted()
+      updateJob({ progress: null, message: 'Capturing a full-page screenshot...' })
+      screenshot = await captureFullPageScreenshot(tabId)
+      diagnostics = [...diagnostics, ...screenshot.diagnostics]
+      // The screenshot shows the page before redaction, so it never goes into a redacted snapshot.
+      if (embedScreenshot && hasRedaction(options)) {
+        diagnostics = [
+          ...diagnostics,
+          createDiagnostic({
+            code: 'SCREENSHOT_NOT_EMBEDDED',
+            severity: 'warning',
+            stage: 'screenshot',
+            message: 'Screenshot not embedded because redaction is on.',
+          }),
+        ]
+      } else if (embedScreenshot) {
+        html = await embedReferenceOverlay(html, screenshot)
+      }
+    }
+    controller.signal.throwIfAborted()
+
+    const result = { ...snapshot, html, diagnostics }
+    const baseName = sanitizeFileName(result.title || 'pagesnap')
+    if (action === 'download') {
+      updateJob({ progress: null, message: 'Building download...' })
+      await downloadSnapshot(result, format, baseName)
+      if (screenshot) {
+        await downloadBlob(screenshot.blob, `${baseName}.png`)
+      }
+    } else if (action === 'library') {
+      await saveToLibrary(result, options)
+    }
+    updateJob({
+      status: 'done',
+      progress: null,
+      message: CAPTURE_DONE_MESSAGES[action],
+      result: {
+        title: result.title,
+        url: result.url,
+        diagnostics,
+        redactions: result.redactions,
+        html: action === 'copy' || action === 'preview' ? html : null,
+      },
+    })
+
+    const issues = countIssues(diagnostics)
+    if (issues > 0) {
+      await setBadge(
+        tabId,
+        String(issues),
+        '#d97706',
+        `PageSnap: snapshot saved with ${issues} warnings.`,
+      )
+    } else {
+      await setBadge(tabId, 'OK', '#059669', 'PageSnap: snapshot saved.')
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      updateJob({ status: 'cancelled', progress: null, message: 'Capture cancelled.' })
+      await chrome.action.setBadgeText({ tabId, text: '' }).catch(() => undefined)
+      return
+    }
+    const message = error instanceof Error ? error.message : 'Capture failed.'
+    updateJob({ status: 'failed', progress: null, message })
+    await setBadge(tabId, 'ERR', '#dc2626', `PageSnap: ${message}`).catch(() => undefined)
+  } finally {
+    captureControllers.delete(tabId)
+    clearBadgeLater(tabId)
+  }
+}
+
+let batchJob: BatchJob | null = null
+let batchController: AbortController | null = null
+const batchSubscribers = new Set<chrome.runtime.Port>()
+
+const publishBatchJob = (job: BatchJob) => {
+  batchJob = job
+  const update: CaptureJobsUpdate = { type: 'BATCH_JOB', job }
+  batchSubscribers.forEach((port) => port.postMessage(update))
+}
+
+// Batches run here rather than in the popup, so closing the popup neither loses the results nor
+// leaves the background tabs open.
+const runBatchJob = async ({ targets, options, concurrency, timeoutMs, output }: BatchRequest) => {
+  if (batchController) {
+    return
+  }
+  const controller = new AbortController()
+  batchController = controller
+  let job: BatchJob = {
+    id: crypto.randomUUID(),
+    status: 'running',
+    message: `Capturing ${targets.length} pages...`,
+    items: [],
+    diagnostics: [],
+  }
+  const updateJob = (patch: Partial<BatchJob>) => {
+    job = { ...job, ...patch }
+    publishBatchJob(job)
+  }
+  publishBatchJob(job)
+
+  try {
+    const results = await runBatchCapture({
+      targets,
+      options,
+      concurrency,
+      timeoutMs,
+      signal: controller.signal,
+      onProgress: (items) => updateJob({ items }),
+    })
+    const diagnostics = aggregateBatchDiagnostics(results)
+    if (controller.signal.aborted) {
+      updateJob({ status: 'cancelled', message: 'Batch cancelled.', diagnostics })
+      return
+    }
+    const captured = results.filter((result) => result.snapshot).length
+    if (captured > 0) {
+      updateJob({ message: 'Building download...' })
+      await downloadBatch(results, output)
+    }
+    updateJob({
+      status: 'done',
+      message: `Captured ${captured} of ${results.length} pages.`,
+      diagnostics,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Batch capture failed.'
+    updateJob({ status: 'failed', message })
+  } finally {
+    batchController = null
+  }
+}
+
+const captureInBackground = async (tabId: number, captureSelection: boolean) => {
+  try {
+    const tab = await chrome.tabs.get(tabId)
+    const {
+      settings: { options, format },
+    } = await loadCaptureSettingsForUrl(tab.url)
+    await runCaptureJob({
+      tabId,
+      action: 'download',
+      format,
+      options: {
+        ...options,
+        captureSelection,
+        collectAssets: format !== 'html',
+        recordResponses: format === 'warc',
+      },
+      captureScreenshot: false,
+      embedScreenshot: false,
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Capture failed.'
+    await setBadge(tabId, 'ERR', '#dc2626', `PageSnap: ${message}`)
+    clearBadgeLater(tabId)
+  } finally {
+    if (captureSelection) {
+      await clearPickedElement(tabId).catch(() => undefined)
+    }
+  }
+}
+
+const markContextTarget = async (tabId: number, frameId: number) => {
+  const [{ result }] = await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [frameId] },
+    func: () => {
+      document
+        .querySelectorAll('[data-pc-picked]')
+        .forEach((node) => node.removeAttribute('data-pc-picked'))
+      const target = (window as ContextTargetWindow).__pagesnapContextTarget
+      if (!target?.isConnected) {
+        return false
+      }
+      target.setAttribute('data-pc-picked', 'true')
+      return true
+    },
+  })
+  return result === true
+}
+
+const pendingPickCaptures = new Set<number>()
+
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.contextMenus.create({ id: MENU_SNAPSHOT_PAGE, title: 'Snapshot page', contexts: ['all'] })
+  chrome.contextMenus.create({
+    id: MENU_SNAPSHOT_ELEMENT,
+    title: 'Snapshot this element',
+    contexts: ['all'],
+  })
+})
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const tabId = tab?.id
+  if (tabId === undefined) {
+    return
+  }
+  if (info.menuItemId === MENU_SNAPSHOT_PAGE) {
+    void captureInBackground(tabId, false)
+    return
+  }
+  if (info.menuItemId === MENU_SNAPSHOT_ELEMENT) {
+    markContextTarget(tabId, info.frameId ?? 0)
+      .catch(() => false)
+      .then((marked) => captureInBackground(tabId, marked))
+  }
+})
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  const tabId = tab?.id
+  if (tabId === undefined) {
+    return
+  }
+  if (command === MENU_SNAPSHOT_PAGE) {
+    void captureInBackground(tabId, false)
+    return
+  }
+  if (command === MENU_SNAPSHOT_ELEMENT) {
+    pendingPickCaptures.add(tabId)
+    startElementPicker(tabId).catch(() => pendingPickCaptures.delete(tabId))
+  }
+})
+
+chrome.runtime.onMessage.addListener((message, sender) => {
+  // A dismissed shortcut pick must not take over the next pick started from the popup.
+  if (message?.type === 'PICKER_CANCELLED') {
+    const tabId = sender.tab?.id
+    if (tabId !== undefined) {
+      pendingPickCaptures.delete(tabId)
+    }
+    return false
+  }
+  if (message?.type !== 'PICKER_SELECTED') {
+    return false
+  }
+  const tabId = sender.tab?.id
+  if (tabId !== undefined && pendingPickCaptures.delete(tabId)) {
+    void captureInBackground(tabId, true)
+    return false
+  }
+  chrome.action.openPopup?.().catch(() => {
+    // Opening the popup without a user gesture is not supported everywhere.
+  })
+  return false
+})
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message?.type !== 'FETCH_ASSET' || typeof message.url !== 'string') {
+    return false
+  }
+  fetchAssetForSender(message as FetchAssetRequest, sender)
+    .catch((error: unknown) => ({
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unknown fetch error',
+    }))
+    .then(sendResponse)
+  return true
+})
+
+chrome.runtime.onConnect.addListener((port) => {
+  // Only extension pages may start or cancel captures; page scripts share the extension id.
+  if (
+    port.name !== CAPTURE_JOBS_PORT ||
+    port.sender?.id !== chrome.runtime.id ||
+    !port.sender.url?.startsWith(chrome.runtime.getURL(''))
+  ) {
+    return
+  }
+  port.onDisconnect.addListener(() => {
+    captureSubscribers.delete(port)
+    batchSubscribers.delete(port)
+  })
+  batchSubscribers.add(port)
+  const batchUpdate: CaptureJobsUpdate = { type: 'BATCH_JOB', job: batchJob }
+  port.postMessage(batchUpdate)
+  port.onMessage.addListener((message: CaptureJobsRequest) => {
+    if (message?.type === 'SUBSCRIBE') {
+      captureSubscribers.set(port, message.tabId)
+      const update: CaptureJobsUpdate = {
+        type: 'CAPTURE_JOB',
+        job: captureJobs.get(message.tabId) ?? null,
+      }
+      port.postMessage(update)
+      return
+    }
+    if (message?.type === 'START_CAPTURE') {
+      void runCaptureJob(message.request)
+      return
+    }
+    if (message?.type === 'CANCEL_CAPTURE') {
+      captureControllers.get(message.tabId)?.abort()
+      return
+    }
+    if (message?.type === 'ACKNOWLEDGE_CAPTURE') {
+      captureJobs.forEach((job, tabId) => {
+        if (job.id === message.jobId && job.status !== 'running') {
+          captureJobs.delete(tabId)
+        }
+      })
+      return
+    }
+    if (message?.type === 'START_BATCH') {
+      void runBatchJob(message.request)
+      return
+    }
+    if (message?.type === 'CANCEL_BATCH') {
+      batchController?.abort(new Error('Batch cancelled.'))
+      return
+    }
+    if (message?.type === 'ACKNOWLEDGE_BATCH') {
+      if (batchJob?.id === message.jobId && batchJob.status !== 'running') {
+        batchJob = null
+      }
+    }
+  })
+})
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  captureControllers.get(tabId)?.abort()
+  captureJobs.delete(tabId)
+})
@@ -0,0 +1,11 @@
+import { runCapture, type CaptureRuntime, type CaptureRuntimeWindow } from '@/lib/capture-runtime'
+
+// Injected into every frame before a capture; injecting it again keeps the installed runtime.
+const target = window as CaptureRuntimeWindow
+if (!target.__pagesnapCapture) {
+  const runtime: CaptureRuntime = {
+    plugins: [],
+    run: (options, captureId) => runCapture(options, captureId, runtime.plugins.splice(0)),
+  }
+  target.__pagesnapCapture = runtime
+}
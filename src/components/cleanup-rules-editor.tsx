@@ -0,0 +1,49 @@
+import { CLEANUP_PACKS } from '@/lib/cleanup'
+
+type CleanupRulesEditorProps = {
+  packs: string[]
+  rulesText: string
+  onPacksChange: (packs: string[]) => void
+  onRulesTextChange: (text: string) => void
+}
+
+export function CleanupRulesEditor({
+  packs,
+  rulesText,
+  onPacksChange,
+  onRulesTextChange,
+}: CleanupRulesEditorProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        {CLEANUP_PACKS.map((pack) => (
+          <label key={pack.id} className="flex items-center gap-2 text-xs text-slate-700">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-blue-600"
+              checked={packs.includes(pack.id)}
+              onChange={(event) =>
+                onPacksChange(
+                  event.target.checked
+                    ? [...packs, pack.id]
+                    : packs.filter((packId) => packId !== pack.id),
+                )
+              }
+            />
+            {pack.name}
+          </label>
+        ))}
+      </div>
+      <textarea
+        className="h-16 w-full resize-y rounded-md border border-slate-300 bg-white p-2 font-mono text-[11px] text-slate-800"
+        placeholder={'remove .staging-toolbar\nhide #promo\nplaceholder .ad-slot'}
+        value={rulesText}
+        onChange={(event) => onRulesTextChange(event.target.value)}
+        aria-label="Custom cleanup rules"
+      />
+      <p className="text-[11px] text-slate-500">
+        One selector per line, optionally prefixed with remove, hide, blank or placeholder.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+
+import {
+  filterDiagnostics,
+  groupDiagnostics,
+  summarizeDiagnostics,
+  type Diagnostic,
+  type DiagnosticGrouping,
+  type DiagnosticSeverity,
+} from '@/lib/diagnostics'
+
+type DiagnosticsPanelProps = {
+  diagnostics: Diagnostic[]
+  onDownloadReport: () => void
+}
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+  info: 'bg-slate-200 text-slate-700',
+  warning: 'bg-amber-500 text-white',
+  error: 'bg-red-600 text-white',
+}
+
+export function DiagnosticsPanel({ diagnostics, onDownloadReport }: DiagnosticsPanelProps) {
+  const [minSeverity, setMinSeverity] = useState<DiagnosticSeverity>('warning')
+  const [grouping, setGrouping] = useState<DiagnosticGrouping>('stage')
+  const summary = summarizeDiagnostics(diagnostics)
+  const groups = groupDiagnostics(filterDiagnostics(diagnostics, minSeverity), grouping)
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border border-amber-200 bg-amber-50/80 p-3 text-xs text-amber-800">
+      <div className="flex items-center gap-2">
+        <ExclamationTriangleIcon className="h-4 w-4 text-amber-600" aria-hidden="true" />
+        <p>
+          {summary.error} errors, {summary.warning} warnings, {summary.info} notes
+        </p>
+        <button
+          type="button"
+          className="ml-auto rounded-md border border-amber-300 bg-white/90 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-amber-800 hover:bg-white"
+          onClick={onDownloadReport}
+        >
+          Report
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          className="h-7 rounded-md border border-amber-300 bg-white px-2 text-[11px]"
+          value={minSeverity}
+          onChange={(event) => setMinSeverity(event.target.value as DiagnosticSeverity)}
+          aria-label="Minimum severity"
+        >
+          <option value="info">Everything</option>
+          <option value="warning">Warnings and errors</option>
+          <option value="error">Errors only</option>
+        </select>
+        <select
+          className="h-7 rounded-md border border-amber-300 bg-white px-2 text-[11px]"
+          value={grouping}
+          onChange={(event) => setGrouping(event.target.value as DiagnosticGrouping)}
+          aria-label="Group by"
+        >
+          <option value="stage">By stage</option>
+          <option value="code">By code</option>
+        </select>
+      </div>
+      <div className="flex max-h-48 flex-col gap-2 overflow-y-auto">
+        {groups.length === 0 ? <p className="text-amber-700">Nothing at this severity.</p> : null}
+        {groups.map((group) => (
+          <details key={group.key} open className="rounded-md bg-white/90 px-2 py-1">
+            <summary className="cursor-pointer select-none font-semibold">
+              {group.label} ({group.items.length})
+            </summary>
+            <ul className="mt-1 flex flex-col gap-1">
+              {group.items.map((diagnostic, index) => (
+                <li
+                  key={`${diagnostic.code}-${index}`}
+                  className="flex items-start gap-2 text-[11px] text-amber-900"
+                  title={diagnostic.url ?? undefined}
+                >
+                  <span
+                    className={`shrink-0 rounded-full px-1.5 py-0.5 text-[9px] font-semibold uppercase tracking-wide ${SEVERITY_STYLES[diagnostic.severity]}`}
+                  >
+                    {diagnostic.severity}
+                  </span>
+                  <span className="min-w-0 break-words">
+                    <code className="font-mono">{diagnostic.code}</code> {diagnostic.message}
+                    {diagnostic.url ? (
+                      <span className="block truncate font-mono text-amber-700">
+                        {diagnostic.url}
+                      </span>
+                    ) : null}
+                  </span>
+                  <span className="ml-auto shrink-0 text-amber-700">
+                    {diagnostic.durationMs !== null ? `${diagnostic.durationMs}ms · ` : ''}
+                    {`+${diagnostic.elapsedMs}ms`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+type FetchPolicyEditorProps = {
+  timeoutSeconds: number
+  retries: number
+  allowedHostsText: string
+  onTimeoutSecondsChange: (seconds: number) => void
+  onRetriesChange: (retries: number) => void
+  onAllowedHostsTextChange: (text: string) => void
+}
+
+export function FetchPolicyEditor({
+  timeoutSeconds,
+  retries,
+  allowedHostsText,
+  onTimeoutSecondsChange,
+  onRetriesChange,
+  onAllowedHostsTextChange,
+}: FetchPolicyEditorProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-slate-700">
+          Fetch timeout
+          <input
+            type="number"
+            min={1}
+            className="h-7 w-16 rounded-md border border-slate-300 bg-white px-2 text-xs"
+            value={timeoutSeconds}
+            onChange={(event) =>
+              onTimeoutSecondsChange(Math.max(1, Number(event.target.value) || 1))
+            }
+          />
+          s
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-700">
+          Retries
+          <input
+            type="number"
+            min={0}
+            max={5}
+            className="h-7 w-14 rounded-md border border-slate-300 bg-white px-2 text-xs"
+            value={retries}
+            onChange={(event) =>
+              onRetriesChange(Math.min(5, Math.max(0, Number(event.target.value) || 0)))
+            }
+          />
+        </label>
+      </div>
+      <textarea
+        className="h-14 w-full resize-y rounded-md border border-slate-300 bg-white p-2 font-mono text-[11px] text-slate-800"
+        placeholder={'*.example.com\ncdn.example.net'}
+        value={allowedHostsText}
+        onChange={(event) => onAllowedHostsTextChange(event.target.value)}
+        aria-label="Hosts assets may be fetched from"
+      />
+      <p className="text-[11px] text-slate-500">
+        One host pattern per line. Leave empty to allow any http or https host.
+      </p>
+    </div>
+  )
+}
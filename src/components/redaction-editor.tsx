@@ -0,0 +1,35 @@
+type RedactionEditorProps = {
+  patternsText: string
+  selectorsText: string
+  onPatternsTextChange: (text: string) => void
+  onSelectorsTextChange: (text: string) => void
+}
+
+export function RedactionEditor({
+  patternsText,
+  selectorsText,
+  onPatternsTextChange,
+  onSelectorsTextChange,
+}: RedactionEditorProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        className="h-14 w-full resize-y rounded-md border border-slate-300 bg-white p-2 font-mono text-[11px] text-slate-800"
+        placeholder={'ACME-\\d{6}\nemployee id: \\w+'}
+        value={patternsText}
+        onChange={(event) => onPatternsTextChange(event.target.value)}
+        aria-label="Custom redaction patterns"
+      />
+      <textarea
+        className="h-14 w-full resize-y rounded-md border border-slate-300 bg-white p-2 font-mono text-[11px] text-slate-800"
+        placeholder={'.account-menu\n#customer-address'}
+        value={selectorsText}
+        onChange={(event) => onSelectorsTextChange(event.target.value)}
+        aria-label="Elements to blank out"
+      />
+      <p className="text-[11px] text-slate-500">
+        One regular expression per line to mask, then one selector per line to blank out.
+      </p>
+    </div>
+  )
+}
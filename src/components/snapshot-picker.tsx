@@ -0,0 +1,67 @@
+import type { LibraryEntry } from '@/lib/library'
+
+export type SnapshotSource = {
+  name: string
+  html: string
+}
+
+type SnapshotPickerProps = {
+  label: string
+  entries: LibraryEntry[]
+  selectedId: string
+  source: SnapshotSource | null
+  onSelectEntry: (entry: LibraryEntry) => void
+  onSelectFile: (file: File) => void
+}
+
+export function SnapshotPicker({
+  label,
+  entries,
+  selectedId,
+  source,
+  onSelectEntry,
+  onSelectFile,
+}: SnapshotPickerProps) {
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-white/70 bg-white/80 p-4 shadow-sm">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-500">{label}</p>
+      <select
+        className="h-9 rounded-xl border border-slate-300 bg-white px-2 text-sm"
+        value={selectedId}
+        onChange={(event) => {
+          const entry = entries.find((candidate) => candidate.id === event.target.value)
+          if (entry) {
+            onSelectEntry(entry)
+          }
+        }}
+        aria-label={`${label} snapshot from the library`}
+      >
+        <option value="">Choose from the library</option>
+        {entries.map((entry) => (
+          <option key={entry.id} value={entry.id}>
+            {entry.title || entry.url || 'Untitled page'} ·{' '}
+            {new Date(entry.capturedAt).toLocaleString()}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 text-xs text-slate-700">
+        Or open a file
+        <input
+          type="file"
+          accept=".html,.htm,text/html"
+          className="text-xs"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            if (file) {
+              onSelectFile(file)
+            }
+            event.target.value = ''
+          }}
+        />
+      </label>
+      <p className="truncate text-xs text-slate-600">
+        {source ? `Loaded: ${source.name}` : 'Nothing loaded yet.'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { beginCaptureFetches, fetchAssetForSender, type FetchAssetRequest } from '@/lib/asset-fetch'
+
+const sender = { id: 'pagesnap', tab: { id: 5 } } as chrome.runtime.MessageSender
+
+const request = (url: string): FetchAssetRequest => ({
+  type: 'FETCH_ASSET',
+  captureId: 'capture-1',
+  url,
+  encoding: 'text',
+  maxBytes: null,
+})
+
+beforeEach(() => {
+  vi.stubGlobal('chrome', { runtime: { id: 'pagesnap' } })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('fetchAssetForSender', () => {
+  it('checks requests against the policy recorded when the capture started', async () => {
+    const endFetches = beginCaptureFetches('capture-1', 5, {
+      timeoutMs: 1000,
+      retries: 0,
+      allowedHosts: ['cdn.example.com'],
+    })
+    await expect(fetchAssetForSender(request('https://evil.test/a.css'), sender)).resolves.toEqual({
+      ok: false,
+      error: 'Blocked by the fetch allowlist',
+    })
+    endFetches()
+  })
+
+  it('refuses requests once the capture has ended', async () => {
+    beginCaptureFetches('capture-1', 5, { timeoutMs: 1000, retries: 0, allowedHosts: [] })()
+    await expect(
+      fetchAssetForSender(request('https://cdn.example.com/a.css'), sender),
+    ).resolves.toEqual({ ok: false, error: 'No capture in progress for this sender' })
+  })
+})
@@ -0,0 +1,201 @@
+import { readBlobAsDataUrl, type CapturedResponse } from '@/lib/cloner'
+import { matchesHostPattern } from '@/lib/settings'
+
+export const ASSET_FETCH_SCHEMES = ['http:', 'https:']
+
+const MAX_CONCURRENT_FETCHES = 6
+const RETRY_DELAY_MS = 500
+
+export type AssetFetchPolicy = {
+  timeoutMs: number
+  retries: number
+  allowedHosts: string[]
+}
+
+// Runtime messages are JSON, so binary bodies travel base64 encoded.
+export type AssetEncoding = 'text' | 'base64'
+
+export type FetchAssetRequest = {
+  type: 'FETCH_ASSET'
+  captureId: string
+  url: string
+  encoding: AssetEncoding
+  maxBytes: number | null
+}
+
+export type FetchAssetResponse =
+  | {
+      ok: true
+      contentType: string
+      size: number
+      body: string
+      response: CapturedResponse
+    }
+  | { ok: false; error: string }
+
+type CaptureFetchState = {
+  tabId: number
+  policy: AssetFetchPolicy
+  cache: Map<string, Promise<FetchAssetResponse>>
+  controller: AbortController
+}
+
+const captureFetchStates = new Map<string, CaptureFetchState>()
+const fetchQueue: Array<() => void> = []
+let activeFetches = 0
+
+export const parseAllowedHosts = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+
+export const formatAllowedHosts = (hosts: string[]) => hosts.join('\n')
+
+export const isAllowedAssetUrl = (url: string, allowedHosts: string[]) => {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+  return (
+    ASSET_FETCH_SCHEMES.includes(parsed.protocol) &&
+    (allowedHosts.length === 0 ||
+      allowedHosts.some((pattern) => matchesHostPattern(parsed.hostname, pattern)))
+  )
+}
+
+// The worker records a capture's fetch policy when it starts the capture, so the page side cannot
+// widen the allowlist, timeout or retries in its own requests. The returned function drops the
+// cache and aborts the requests still in flight.
+export const beginCaptureFetches = (captureId: string, tabId: number, policy: AssetFetchPolicy) => {
+  const state: CaptureFetchState = {
+    tabId,
+    policy,
+    cache: new Map<string, Promise<FetchAssetResponse>>(),
+    controller: new AbortController(),
+  }
+  captureFetchStates.set(captureId, state)
+  return () => {
+    state.controller.abort()
+    if (captureFetchStates.get(captureId) === state) {
+      captureFetchStates.delete(captureId)
+    }
+  }
+}
+
+const acquireFetchSlot = async () => {
+  if (activeFetches < MAX_CONCURRENT_FETCHES) {
+    activeFetches += 1
+    return
+  }
+  await new Promise<void>((resolve) => fetchQueue.push(resolve))
+}
+
+const releaseFetchSlot = () => {
+  const next = fetchQueue.shift()
+  if (next) {
+    next()
+  } else {
+    activeFetches -= 1
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500
+
+const readResponseMeta = (response: Response): CapturedResponse => ({
+  status: response.status,
+  statusText: response.statusText,
+  headers: Array.from(response.headers.entries()),
+})
+
+const readBody = async (blob: Blob, encoding: AssetEncoding) => {
+  if (encoding === 'text') {
+    return blob.text()
+  }
+  const dataUrl = await readBlobAsDataUrl(blob)
+  return dataUrl.slice(dataUrl.indexOf(',') + 1)
+}
+
+const fetchWithRetries = async (
+  { url, encoding, maxBytes }: FetchAssetRequest,
+  policy: AssetFetchPolicy,
+  signal: AbortSignal,
+): Promise<FetchAssetResponse> => {
+  let error = 'Unknown fetch error'
+  for (let attempt = 0; attempt <= policy.retries; attempt += 1) {
+    if (attempt > 0) {
+      await wait(RETRY_DELAY_MS * attempt)
+    }
+    await acquireFetchSlot()
+    try {
+      if (signal.aborted) {
+        return { ok: false, error: 'Capture cancelled' }
+      }
+      const response = await fetch(url, {
+        credentials: 'include',
+        signal: AbortSignal.any([signal, AbortSignal.timeout(policy.timeoutMs)]),
+      })
+      if (!response.ok) {
+        error = `HTTP ${response.status}`
+        if (isRetryableStatus(response.status)) {
+          continue
+        }
+        return { ok: false, error }
+      }
+      const declaredSize = Number(response.headers.get('content-length'))
+      if (maxBytes !== null && declaredSize > maxBytes) {
+        return { ok: false, error: `Asset exceeds ${maxBytes} bytes` }
+      }
+      const blob = await response.blob()
+      if (maxBytes !== null && blob.size > maxBytes) {
+        return { ok: false, error: `Asset exceeds ${maxBytes} bytes` }
+      }
+      return {
+        ok: true,
+        contentType: blob.type || 'application/octet-stream',
+        size: blob.size,
+        body: await readBody(blob, encoding),
+        response: readResponseMeta(response),
+      }
+    } catch (fetchError) {
+      if (signal.aborted) {
+        return { ok: false, error: 'Capture cancelled' }
+      }
+      error =
+        fetchError instanceof DOMException && fetchError.name === 'TimeoutError'
+          ? `Timed out after ${policy.timeoutMs}ms`
+          : fetchError instanceof Error
+            ? fetchError.message
+            : 'Unknown fetch error'
+    } finally {
+      releaseFetchSlot()
+    }
+  }
+  return { ok: false, error }
+}
+
+// Only the capture scripts of a tab with a capture in progress get the worker's credentialed
+// fetch, and only for the schemes and hosts the capture's recorded policy allows.
+export const fetchAssetForSender = async (
+  request: FetchAssetRequest,
+  sender: chrome.runtime.MessageSender,
+): Promise<FetchAssetResponse> => {
+  const state = captureFetchStates.get(request.captureId)
+  if (sender.id !== chrome.runtime.id || !state || state.tabId !== sender.tab?.id) {
+    return { ok: false, error: 'No capture in progress for this sender' }
+  }
+  if (!isAllowedAssetUrl(request.url, state.policy.allowedHosts)) {
+    return { ok: false, error: 'Blocked by the fetch allowlist' }
+  }
+  const key = `${request.encoding}\n${request.maxBytes ?? ''}\n${request.url}`
+  let pending = state.cache.get(key)
+  if (!pending) {
+    pending = fetchWithRetries(request, state.policy, state.controller.signal)
+    state.cache.set(key, pending)
+  }
+  return pending
+}
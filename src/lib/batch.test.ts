@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { runBatchCapture } from '@/lib/batch'
+import { DEFAULT_CLONE_OPTIONS } from '@/lib/settings'
+
+const listeners = () => ({ addListener: vi.fn(), removeListener: vi.fn() })
+
+// A page that never answers: the capture script injection does not settle.
+const stubChrome = () => {
+  const chromeStub = {
+    tabs: {
+      create: vi.fn(async () => ({ id: 7 })),
+      get: vi.fn(async () => ({ id: 7, status: 'complete' })),
+      remove: vi.fn(async () => undefined),
+      onUpdated: listeners(),
+      onRemoved: listeners(),
+    },
+    scripting: { executeScript: vi.fn(() => new Promise(() => undefined)) },
+    runtime: { onConnect: listeners() },
+  }
+  vi.stubGlobal('chrome', chromeStub)
+  return chromeStub
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('runBatchCapture', () => {
+  it('fails a page that never answers once it times out and closes its tab', async () => {
+    const chromeStub = stubChrome()
+    const results = await runBatchCapture({
+      targets: [{ tabId: null, url: 'https://example.com/' }],
+      options: DEFAULT_CLONE_OPTIONS,
+      concurrency: 1,
+      timeoutMs: 20,
+      signal: new AbortController().signal,
+      onProgress: () => undefined,
+    })
+    expect(results[0]).toMatchObject({ status: 'failed', error: 'Timed out after 0s.' })
+    expect(chromeStub.tabs.remove).toHaveBeenCalledWith(7)
+  })
+
+  it('marks pages cancelled when the batch is aborted', async () => {
+    stubChrome()
+    const controller = new AbortController()
+    const batch = runBatchCapture({
+      targets: [
+        { tabId: 3, url: 'https://example.com/a' },
+        { tabId: 4, url: 'https://example.com/b' },
+      ],
+      options: DEFAULT_CLONE_OPTIONS,
+      concurrency: 1,
+      timeoutMs: 60_000,
+      signal: controller.signal,
+      onProgress: () => undefined,
+    })
+    controller.abort(new Error('Batch cancelled.'))
+    const results = await batch
+    expect(results.map(({ status }) => status)).toEqual(['cancelled', 'cancelled'])
+  })
+})
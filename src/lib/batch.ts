@@ -0,0 +1,298 @@
+import {
+  cloneTab,
+  downloadBlob,
+  downloadHtml,
+  sanitizeFileName,
+  type CloneOptions,
+  type CloneResult,
+} from '@/lib/cloner'
+import { createDiagnostic, createDiagnosticsReport, type Diagnostic } from '@/lib/diagnostics'
+import { createZip, type ZipEntry } from '@/lib/zip'
+
+export type BatchTarget = { tabId: number | null; url: string }
+
+export type BatchItemStatus =
+  | 'queued'
+  | 'loading'
+  | 'capturing'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+
+export type BatchItem = {
+  url: string
+  status: BatchItemStatus
+  title: string | null
+  diagnostics: Diagnostic[]
+  error: string | null
+}
+
+export type BatchOutput = 'files' | 'zip'
+
+type BatchResult = BatchItem & {
+  snapshot: CloneResult | null
+}
+
+const CAPTURABLE_URL = /^(https?|file):/i
+
+export const getWindowTargets = async (): Promise<BatchTarget[]> => {
+  const tabs = await chrome.tabs.query({ currentWindow: true })
+  return tabs.flatMap((tab) =>
+    tab.id !== undefined && tab.url && CAPTURABLE_URL.test(tab.url)
+      ? [{ tabId: tab.id, url: tab.url }]
+      : [],
+  )
+}
+
+export const parseUrlList = (text: string): BatchTarget[] =>
+  text
+    .split(/\s+/)
+    .map((line) => line.trim())
+    .filter((line) => CAPTURABLE_URL.test(line))
+    .map((url) => ({ tabId: null, url }))
+
+const waitForTabLoad = (tabId: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const handleUpdated = (updatedTabId: number, changeInfo: { status?: string }) => {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') {
+        finish()
+      }
+    }
+    const handleRemoved = (removedTabId: number) => {
+      if (removedTabId === tabId) {
+        finish(new Error('The tab was closed before it finished loading.'))
+      }
+    }
+    const handleAbort = () => finish(signal.reason)
+    const finish = (error?: Error) => {
+      chrome.tabs.onUpdated.removeListener(handleUpdated)
+      chrome.tabs.onRemoved.removeListener(handleRemoved)
+      signal.removeEventListener('abort', handleAbort)
+      if (error) {
+        reject(error)
+      } else {
+        resolve()
+      }
+    }
+    chrome.tabs.onUpdated.addListener(handleUpdated)
+    chrome.tabs.onRemoved.addListener(handleRemoved)
+    signal.addEventListener('abort', handleAbort)
+    chrome.tabs.get(tabId).then((tab) => {
+      if (tab.status === 'complete') {
+        finish()
+      }
+    }, finish)
+  })
+
+const captureTarget = async (
+  target: BatchTarget,
+  options: CloneOptions,
+  timeoutMs: number,
+  batchSignal: AbortSignal,
+  report: (status: BatchItemStatus) => void,
+) => {
+  // Aborting cancels the capture in the page, so a timed-out page stops using the tab. The race
+  // settles the item even when the page never answers.
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s.`)),
+    timeoutMs,
+  )
+  const signal = AbortSignal.any([batchSignal, controller.signal])
+  const aborted = new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true })
+  })
+  let openedTabId: number | null = null
+  const closeOpenedTab = async () => {
+    if (openedTabId !== null) {
+      const tabId = openedTabId
+      openedTabId = null
+      await chrome.tabs.remove(tabId).catch(() => undefined)
+    }
+  }
+  const capture = async () => {
+    let tabId = target.tabId
+    if (tabId === null) {
+      report('loading')
+      const tab = await chrome.tabs.create({ url: target.url, active: false })
+      if (tab.id === undefined) {
+        throw new Error('Could not open a background tab.')
+      }
+      tabId = openedTabId = tab.id
+      if (signal.aborted) {
+        // The race already settled while the tab was opening.
+        await closeOpenedTab()
+        signal.throwIfAborted()
+      }
+      await waitForTabLoad(tabId, signal)
+    }
+    report('capturing')
+    return cloneTab(tabId, options, { signal })
+  }
+  try {
+    return await Promise.race([capture(), aborted])
+  } catch (error) {
+    throw signal.aborted ? signal.reason : error
+  } finally {
+    clearTimeout(timer)
+    await closeOpenedTab()
+  }
+}
+
+export const runBatchCapture = async ({
+  targets,
+  options,
+  concurrency,
+  timeoutMs,
+  signal,
+  onProgress,
+}: {
+  targets: BatchTarget[]
+  options: CloneOptions
+  concurrency: number
+  timeoutMs: number
+  signal: AbortSignal
+  onProgress: (items: BatchItem[]) => void
+}) => {
+  const results: BatchResult[] = targets.map(({ url }) => ({
+    url,
+    status: 'queued',
+    title: null,
+    diagnostics: [],
+    error: null,
+    snapshot: null,
+  }))
+  const publish = () =>
+    onProgress(
+      results.map(({ url, status, title, diagnostics, error }) => ({
+        url,
+        status,
+        title,
+        diagnostics,
+        error,
+      })),
+    )
+  const update = (index: number, patch: Partial<BatchResult>) => {
+    results[index] = { ...results[index], ...patch }
+    publish()
+  }
+  publish()
+
+  let nextIndex = 0
+  const worker = async () => {
+    while (nextIndex < targets.length) {
+      const index = nextIndex
+      nextIndex += 1
+      if (signal.aborted) {
+        update(index, { status: 'cancelled' })
+        continue
+      }
+      try {
+        const snapshot = await captureTarget(
+          targets[index],
+          options,
+          timeoutMs,
+          signal,
+          (status) => update(index, { status }),
+        )
+        update(index, {
+          status: 'done',
+          title: snapshot.title,
+          diagnostics: snapshot.diagnostics,
+          snapshot,
+        })
+      } catch (error) {
+        if (signal.aborted) {
+          update(index, { status: 'cancelled' })
+          continue
+        }
+        const message = error instanceof Error ? error.message : 'Capture failed.'
+        update(index, { status: 'failed', error: message })
+      }
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, targets.length)) }, worker),
+  )
+
+  return results
+}
+
+export const aggregateBatchDiagnostics = (items: BatchItem[]) =>
+  items.flatMap((item) => [
+    ...(item.error
+      ? [
+          createDiagnostic({
+            code: 'CAPTURE_FAILED',
+            severity: 'error',
+            stage: 'capture',
+            message: `${item.url}: ${item.error}`,
+            url: item.url,
+          }),
+        ]
+      : []),
+    ...item.diagnostics.map((diagnostic) => ({
+      ...diagnostic,
+      message: `${item.url}: ${diagnostic.message}`,
+    })),
+  ])
+
+const batchReport = (results: BatchResult[], files: Map<number, string>) => ({
+  capturedAt: new Date().toISOString(),
+  pages: results.map(({ url, title, status, error, diagnostics }, index) => ({
+    url,
+    title,
+    status,
+    file: files.get(index) ?? null,
+    error,
+    diagnostics,
+  })),
+})
+
+// Each page's report sits next to its HTML file, as it does for a single download.
+const diagnosticsFileName = (fileName: string) => fileName.replace(/\.html$/, '-diagnostics.json')
+
+export const downloadBatch = async (results: BatchResult[], output: BatchOutput) => {
+  const encoder = new TextEncoder()
+  const files = new Map<number, string>()
+  const usedNames = new Set<string>()
+  results.forEach(({ snapshot }, index) => {
+    if (!snapshot) {
+      return
+    }
+    const baseName = sanitizeFileName(snapshot.title || 'pagesnap')
+    let fileName = `${baseName}.html`
+    for (let counter = 2; usedNames.has(fileName); counter += 1) {
+      fileName = `${baseName}-${counter}.html`
+    }
+    usedNames.add(fileName)
+    files.set(index, fileName)
+  })
+  const report = JSON.stringify(batchReport(results, files), null, 2)
+
+  if (output === 'zip') {
+    const entries: ZipEntry[] = []
+    for (const [index, fileName] of files) {
+      const snapshot = results[index].snapshot
+      entries.push({ path: fileName, data: encoder.encode(snapshot?.html ?? '') })
+      if (snapshot) {
+        entries.push({
+          path: diagnosticsFileName(fileName),
+          data: new Uint8Array(await createDiagnosticsReport(snapshot).arrayBuffer()),
+        })
+      }
+    }
+    entries.push({ path: 'report.json', data: encoder.encode(report) })
+    await downloadBlob(await createZip(entries), 'pagesnap-batch.zip')
+    return
+  }
+
+  for (const [index, fileName] of files) {
+    const snapshot = results[index].snapshot
+    await downloadHtml(snapshot?.html ?? '', fileName)
+    if (snapshot) {
+      await downloadBlob(createDiagnosticsReport(snapshot), diagnosticsFileName(fileName))
+    }
+  }
+  await downloadBlob(new Blob([report], { type: 'application/json' }), 'pagesnap-batch-report.json')
+}
@@ -0,0 +1,66 @@
+import type { BatchItem, BatchOutput, BatchTarget } from '@/lib/batch'
+import type { CaptureProgress, CloneOptions, CloneResult, DownloadFormat } from '@/lib/cloner'
+import type { Diagnostic } from '@/lib/diagnostics'
+
+export const CAPTURE_JOBS_PORT = 'pagesnap-capture-jobs'
+
+export type CaptureAction = 'download' | 'copy' | 'preview' | 'library'
+
+export type CaptureRequest = {
+  tabId: number
+  action: CaptureAction
+  format: DownloadFormat
+  options: CloneOptions
+  captureScreenshot: boolean
+  embedScreenshot: boolean
+}
+
+export type CaptureJobStatus = 'running' | 'done' | 'failed' | 'cancelled'
+
+export type CaptureJob = {
+  id: string
+  tabId: number
+  action: CaptureAction
+  status: CaptureJobStatus
+  progress: CaptureProgress | null
+  message: string
+  // Copy and preview need the popup, so their HTML is held until a popup acknowledges it.
+  result:
+    | (Pick<CloneResult, 'title' | 'url' | 'diagnostics' | 'redactions'> & {
+        html: string | null
+      })
+    | null
+}
+
+export type BatchRequest = {
+  targets: BatchTarget[]
+  options: CloneOptions
+  concurrency: number
+  timeoutMs: number
+  output: BatchOutput
+}
+
+// Only one batch runs at a time. It is kept until a popup acknowledges the finished job.
+export type BatchJob = {
+  id: string
+  status: CaptureJobStatus
+  message: string
+  items: BatchItem[]
+  diagnostics: Diagnostic[]
+}
+
+export type CaptureJobsRequest =
+  | { type: 'SUBSCRIBE'; tabId: number }
+  | { type: 'START_CAPTURE'; request: CaptureRequest }
+  | { type: 'CANCEL_CAPTURE'; tabId: number }
+  | { type: 'ACKNOWLEDGE_CAPTURE'; jobId: string }
+  | { type: 'START_BATCH'; request: BatchRequest }
+  | { type: 'CANCEL_BATCH' }
+  | { type: 'ACKNOWLEDGE_BATCH'; jobId: string }
+
+export type CaptureJobsUpdate =
+  | { type: 'CAPTURE_JOB'; job: CaptureJob | null }
+  | { type: 'BATCH_JOB'; job: BatchJob | null }
+
+export const formatCaptureProgress = ({ message, completed, total }: CaptureProgress) =>
+  total ? `${message} (${completed ?? 0}/${total})...` : `${message}...`
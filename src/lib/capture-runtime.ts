@@ -0,0 +1,1616 @@
+import { isAllowedAssetUrl, type FetchAssetRequest, type FetchAssetResponse } from '@/lib/asset-fetch'
+import {
+  CAPTURE_PORT_PREFIX,
+  readBlobAsDataUrl,
+  type CapturedAsset,
+  type CapturedResponse,
+  type CaptureProgress,
+  type CaptureStage,
+  type CleanupRule,
+  type CloneOptions,
+  type RedactionEntry,
+  type RedactionKind,
+} from '@/lib/cloner'
+import type {
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  DiagnosticStage,
+} from '@/lib/diagnostics'
+import type { CaptureContext, CapturePlugin, CloneContext } from '@/lib/pipeline'
+import { createRedactor, hasRedaction } from '@/lib/redaction'
+import { collectUsedCss, type MatchScope } from '@/lib/used-css'
+import { parseSrcset, resolveAssetUrl, resolveUrl, rewriteCssUrls, serializeSrcset } from '@/lib/urls'
+
+type FrameRuntime = typeof chrome.runtime & {
+  getFrameId?: (target: Element) => number
+}
+
+export type ChildFrame = {
+  frameId: number | null
+  src: string
+}
+
+export type SerializedResult = {
+  html: string
+  title: string
+  url: string
+  diagnostics: Diagnostic[]
+  frames: ChildFrame[]
+  assets: CapturedAsset[]
+  redactions: RedactionEntry[]
+}
+
+// The capture script installs this on the isolated world's window; see `cloneTab`.
+export type CaptureRuntime = {
+  run: (options: CloneOptions, captureId: string) => Promise<SerializedResult | null>
+  // Plugins registered by scripts injected alongside the capture script. A capture takes them
+  // all, so each registration applies to the next capture in that frame only.
+  plugins: CapturePlugin[]
+}
+
+export type CaptureRuntimeWindow = Window & {
+  __pagesnapCapture?: CaptureRuntime
+}
+
+export const registerCapturePlugin = (plugin: CapturePlugin) => {
+  const runtime = (window as CaptureRuntimeWindow).__pagesnapCapture
+  if (!runtime) {
+    throw new Error('The capture script has not been injected.')
+  }
+  runtime.plugins.push(plugin)
+}
+
+// Captures the document of the frame it runs in. Child frames are captured by their own run and
+// referenced from here by `srcdoc` tokens.
+export const runCapture = async (
+  options: CloneOptions,
+  captureId: string,
+  extraPlugins: CapturePlugin[] = [],
+): Promise<SerializedResult | null> => {
+  const {
+    removeScripts,
+    removeOriginalStyles,
+    useHostFetch,
+    addCsp,
+    inlineAssets,
+    maxInlineAssetBytes,
+    preserveFormState,
+    includePasswords,
+    rasterizeMedia,
+    captureSelection,
+    inlineComputedStyles,
+    collectAssets,
+    recordResponses,
+    resolveLazyContent,
+    cleanupRules,
+    redactEmails,
+    redactPhoneNumbers,
+    redactCardNumbers,
+    redactPatterns,
+    redactSelectors,
+    stripDataAttributes,
+    stripUrlTokens,
+    fetchTimeoutMs,
+    fetchAllowedHosts,
+  } = options
+  const stripOriginalStyles = removeOriginalStyles || inlineComputedStyles
+  const embedAssets = inlineAssets || collectAssets
+  const captureStartedAt = performance.now()
+  const diagnostics: Diagnostic[] = []
+  const report = (
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    stage: DiagnosticStage,
+    message: string,
+    { url = null, startedAt }: { url?: string | null; startedAt?: number } = {},
+  ) => {
+    const now = performance.now()
+    diagnostics.push({
+      code,
+      severity,
+      stage,
+      message,
+      url,
+      elapsedMs: Math.round(now - captureStartedAt),
+      durationMs: startedAt === undefined ? null : Math.round(now - startedAt),
+    })
+  }
+  // The extension side cancels through the same port the top frame streams progress over.
+  const captureAbort = new AbortController()
+  let progressPort: chrome.runtime.Port | null = null
+  try {
+    progressPort = chrome.runtime.connect({ name: `${CAPTURE_PORT_PREFIX}${captureId}` })
+    progressPort.onMessage.addListener((message: { type?: string }) => {
+      if (message?.type === 'CANCEL') {
+        captureAbort.abort()
+      }
+    })
+    progressPort.onDisconnect.addListener(() => {
+      progressPort = null
+    })
+  } catch {
+    progressPort = null
+  }
+  const reportProgress = (
+    stage: CaptureStage,
+    message: string,
+    completed: number | null = null,
+    total: number | null = null,
+  ) => {
+    if (window !== window.top) {
+      return
+    }
+    const progress: CaptureProgress = { stage, message, completed, total }
+    progressPort?.postMessage({ type: 'PROGRESS', progress })
+  }
+  const throwIfCancelled = () => {
+    if (captureAbort.signal.aborted) {
+      throw new Error('Capture cancelled.')
+    }
+  }
+  let assetsRequested = 0
+  let assetsSettled = 0
+  const childFrames: ChildFrame[] = []
+  const assetCache = new Map<string, Promise<string | null>>()
+  const collectedAssets = new Map<string, CapturedAsset>()
+
+  const injectFreezeStyles = () => {
+    const style = document.createElement('style')
+    style.setAttribute('data-pc-freeze', 'true')
+    style.textContent = `
+* {
+  animation: none !important;
+  transition: none !important;
+  scroll-behavior: auto !important;
+  caret-color: auto !important;
+}
+html, body {
+  scroll-behavior: auto !important;
+}
+`
+    document.head?.appendChild(style)
+    return () => {
+      style.remove()
+    }
+  }
+
+  const pauseMedia = () => {
+    const media = document.querySelectorAll<HTMLMediaElement>('audio, video')
+    media.forEach((el) => {
+      try {
+        el.pause()
+      } catch {
+        // Ignore media errors.
+      }
+    })
+  }
+
+  const waitForStableFrames = async (count: number) => {
+    for (let i = 0; i < count; i += 1) {
+      await new Promise<void>((resolve) => {
+        if (document.hidden) {
+          setTimeout(resolve, 16)
+          return
+        }
+        requestAnimationFrame(() => resolve())
+      })
+    }
+  }
+
+  const waitForSettle = (quietMs: number, timeoutMs: number) =>
+    new Promise<void>((resolve) => {
+      let quietTimer = 0
+      const mutationObserver = new MutationObserver(() => scheduleQuietCheck())
+      const resourceObserver =
+        typeof PerformanceObserver === 'function'
+          ? new PerformanceObserver(() => scheduleQuietCheck())
+          : null
+      const deadline = window.setTimeout(() => finish(), timeoutMs)
+
+      const finish = () => {
+        window.clearTimeout(quietTimer)
+        window.clearTimeout(deadline)
+        mutationObserver.disconnect()
+        resourceObserver?.disconnect()
+        resolve()
+      }
+
+      const hasPendingImages = () =>
+        Array.from(document.images).some((image) => {
+          if (image.complete) {
+            return false
+          }
+          const rect = image.getBoundingClientRect()
+          return rect.bottom >= 0 && rect.top <= window.innerHeight
+        })
+
+      const scheduleQuietCheck = () => {
+        window.clearTimeout(quietTimer)
+        quietTimer = window.setTimeout(() => {
+          if (hasPendingImages()) {
+            scheduleQuietCheck()
+            return
+          }
+          finish()
+        }, quietMs)
+      }
+
+      mutationObserver.observe(document, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        attributeFilter: ['src', 'srcset', 'style', 'class'],
+      })
+      try {
+        resourceObserver?.observe({ type: 'resource' })
+      } catch {
+        // Resource timing is unavailable in some sandboxed frames.
+      }
+      scheduleQuietCheck()
+    })
+
+  const scrollToResolveLazyContent = async () => {
+    const maxSteps = 60
+    const scrollingElement = document.scrollingElement ?? document.documentElement
+    const startLeft = window.scrollX
+    const startTop = window.scrollY
+    const step = Math.max(Math.floor(window.innerHeight * 0.8), 200)
+
+    let top = 0
+    let steps = 0
+    try {
+      while (top < scrollingElement.scrollHeight - window.innerHeight && steps < maxSteps) {
+        throwIfCancelled()
+        reportProgress('scroll', 'Scrolling to load lazy content', steps, maxSteps)
+        window.scrollTo({ left: startLeft, top, behavior: 'instant' })
+        await waitForSettle(200, 2000)
+        top += step
+        steps += 1
+      }
+      if (steps >= maxSteps) {
+        report(
+          'LAZY_SCROLL_LIMIT',
+          'warning',
+          'prepare',
+          `Stopped auto-scrolling after ${maxSteps} steps; the page may load endlessly.`,
+        )
+      } else {
+        window.scrollTo({
+          left: startLeft,
+          top: scrollingElement.scrollHeight,
+          behavior: 'instant',
+        })
+        await waitForSettle(200, 2000)
+      }
+    } finally {
+      window.scrollTo({ left: startLeft, top: startTop, behavior: 'instant' })
+    }
+    await waitForSettle(100, 1000)
+  }
+
+  // The worker applies its own timeouts and retries, so the page only has to watch for
+  // cancellation.
+  const sendBackgroundMessage = (message: FetchAssetRequest) =>
+    new Promise<FetchAssetResponse>((resolve) => {
+      let settled = false
+      captureAbort.signal.addEventListener(
+        'abort',
+        () => {
+          if (settled) {
+            return
+          }
+          settled = true
+          resolve({ ok: false, error: 'Capture cancelled' })
+        },
+        { once: true },
+      )
+      try {
+        chrome.runtime.sendMessage(message, (result) => {
+          if (settled) {
+            return
+          }
+          settled = true
+          resolve(
+            result && typeof result === 'object'
+              ? (result as FetchAssetResponse)
+              : { ok: false, error: 'Background fetch failed' },
+          )
+        })
+      } catch (error) {
+        if (settled) {
+          return
+        }
+        settled = true
+        const message = error instanceof Error ? error.message : 'Background fetch error'
+        resolve({ ok: false, error: message })
+      }
+    })
+
+  const fetchFromHost = (url: string, encoding: 'text' | 'base64', maxBytes: number | null) =>
+    sendBackgroundMessage({
+      type: 'FETCH_ASSET',
+      captureId,
+      url,
+      encoding,
+      maxBytes,
+    })
+
+  const canUseHostFetch = () =>
+    useHostFetch && typeof chrome !== 'undefined' && Boolean(chrome.runtime?.sendMessage)
+
+  const fetchFromPage = (url: string) =>
+    fetch(url, {
+      credentials: 'include',
+      signal: AbortSignal.any([captureAbort.signal, AbortSignal.timeout(fetchTimeoutMs)]),
+    })
+
+  const readResponseMeta = (response: Response): CapturedResponse => ({
+    status: response.status,
+    statusText: response.statusText,
+    headers: Array.from(response.headers.entries()),
+  })
+
+  const fetchStylesheetText = async (href: string) => {
+    if (canUseHostFetch()) {
+      const response = await fetchFromHost(href, 'text', null)
+      if (!response.ok) {
+        return { text: null, error: response.error }
+      }
+      return { text: response.body, response: response.response, error: null }
+    }
+    if (!isAllowedAssetUrl(href, fetchAllowedHosts)) {
+      return { text: null, error: 'Blocked by the fetch allowlist' }
+    }
+    try {
+      const response = await fetchFromPage(href)
+      if (!response.ok) {
+        return { text: null, error: `HTTP ${response.status}` }
+      }
+      const text = await response.text()
+      return { text, response: readResponseMeta(response), error: null }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown fetch error'
+      return { text: null, error: message }
+    }
+  }
+
+  const fetchAssetDataUrl = async (href: string) => {
+    if (canUseHostFetch()) {
+      const response = await fetchFromHost(href, 'base64', maxInlineAssetBytes)
+      if (!response.ok) {
+        return { dataUrl: null, error: response.error }
+      }
+      return {
+        dataUrl: `data:${response.contentType};base64,${response.body}`,
+        response: response.response,
+        error: null,
+      }
+    }
+    if (!isAllowedAssetUrl(href, fetchAllowedHosts)) {
+      return { dataUrl: null, error: 'Blocked by the fetch allowlist' }
+    }
+    try {
+      const response = await fetchFromPage(href)
+      if (!response.ok) {
+        return { dataUrl: null, error: `HTTP ${response.status}` }
+      }
+      const blob = await response.blob()
+      if (blob.size > maxInlineAssetBytes) {
+        return { dataUrl: null, error: `Asset exceeds ${maxInlineAssetBytes} bytes` }
+      }
+      return {
+        dataUrl: await readBlobAsDataUrl(blob),
+        response: readResponseMeta(response),
+        error: null,
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown fetch error'
+      return { dataUrl: null, error: message }
+    }
+  }
+
+  // Resolves to the data URL that should replace `href` in inline mode. In collect mode the
+  // asset is also recorded for the export formats.
+  const embedAsset = (href: string) => {
+    let pending = assetCache.get(href)
+    if (!pending) {
+      const startedAt = performance.now()
+      assetsRequested += 1
+      reportProgress('assets', 'Fetching assets', assetsSettled, assetsRequested)
+      pending = fetchAssetDataUrl(href).then(({ dataUrl, response, error }) => {
+        assetsSettled += 1
+        reportProgress('assets', 'Fetching assets', assetsSettled, assetsRequested)
+        if (captureAbort.signal.aborted) {
+          return null
+        }
+        if (!dataUrl) {
+          report('FETCH_FAILED', 'warning', 'assets', `Failed to fetch asset (${error})`, {
+            url: href,
+            startedAt,
+          })
+          return null
+        }
+        if (collectAssets) {
+          collectedAssets.set(href, { url: href, dataUrl, response })
+        }
+        return inlineAssets ? dataUrl : null
+      })
+      assetCache.set(href, pending)
+    }
+    return pending
+  }
+
+  const embedCssUrls = async (
+    cssText: string,
+    baseUrl: string | null,
+    embedAssets: boolean,
+  ) => {
+    const rewritten = rewriteCssUrls(cssText, baseUrl)
+    if (!embedAssets) {
+      return rewritten
+    }
+    const cssUrlPattern = /url\("([^"]+)"\)/g
+    const dataUrls = new Map<string, string>()
+    const pending = new Set<string>()
+    for (const [, url] of rewritten.matchAll(cssUrlPattern)) {
+      if (/^https?:/i.test(url)) {
+        pending.add(url)
+      }
+    }
+    await Promise.all(
+      Array.from(pending).map(async (url) => {
+        const dataUrl = await embedAsset(url)
+        if (dataUrl) {
+          dataUrls.set(url, dataUrl)
+        }
+      }),
+    )
+    return rewritten.replace(cssUrlPattern, (match, url: string) => {
+      const dataUrl = dataUrls.get(url)
+      return dataUrl ? `url("${dataUrl}")` : match
+    })
+  }
+
+  const absolutizeUrls = (root: ParentNode) => {
+    const baseUrl = document.baseURI
+    for (const attribute of ['href', 'src', 'action', 'poster']) {
+      root.querySelectorAll(`[${attribute}]`).forEach((element) => {
+        const absolute = resolveUrl(element.getAttribute(attribute), baseUrl)
+        if (absolute) {
+          element.setAttribute(attribute, absolute)
+        }
+      })
+    }
+    root.querySelectorAll('[srcset]').forEach((element) => {
+      const candidates = parseSrcset(element.getAttribute('srcset') ?? '').map((candidate) => ({
+        ...candidate,
+        url: resolveUrl(candidate.url, baseUrl) ?? candidate.url,
+      }))
+      element.setAttribute('srcset', serializeSrcset(candidates))
+    })
+    root.querySelectorAll('[style*="url("]').forEach((element) => {
+      element.setAttribute(
+        'style',
+        rewriteCssUrls(element.getAttribute('style') ?? '', baseUrl),
+      )
+    })
+    root.querySelectorAll('style').forEach((styleNode) => {
+      styleNode.textContent = rewriteCssUrls(styleNode.textContent ?? '', baseUrl)
+    })
+  }
+
+  const embedDomAssets = async (root: ParentNode) => {
+    const baseUrl = document.baseURI
+    const tasks: Array<Promise<void>> = []
+
+    const embedAttribute = (element: Element, attribute: string) => {
+      const href = resolveAssetUrl(element.getAttribute(attribute), baseUrl)
+      if (!href) {
+        return
+      }
+      tasks.push(
+        embedAsset(href).then((dataUrl) => {
+          if (dataUrl) {
+            element.setAttribute(attribute, dataUrl)
+          }
+        }),
+      )
+    }
+
+    const embedSrcset = (element: Element) => {
+      const candidates = parseSrcset(element.getAttribute('srcset') ?? '')
+      if (candidates.length === 0) {
+        return
+      }
+      tasks.push(
+        Promise.all(
+          candidates.map(async (candidate) => {
+            const href = resolveAssetUrl(candidate.url, baseUrl)
+            const dataUrl = href ? await embedAsset(href) : null
+            return { ...candidate, url: dataUrl ?? href ?? candidate.url }
+          }),
+        ).then((inlined) => {
+          element.setAttribute('srcset', serializeSrcset(inlined))
+        }),
+      )
+    }
+
+    const embedStylesheetLink = async (link: HTMLLinkElement) => {
+      const href = resolveAssetUrl(link.getAttribute('href'), baseUrl)
+      if (!href) {
+        return
+      }
+      const startedAt = performance.now()
+      const result = await fetchStylesheetText(href)
+      if (!result.text) {
+        report(
+          'STYLESHEET_FETCH_FAILED',
+          'error',
+          'styles',
+          `Failed to fetch stylesheet (${result.error})`,
+          { url: href, startedAt },
+        )
+        return
+      }
+      const cssText = await embedCssUrls(result.text, href, true)
+      if (collectAssets) {
+        // Response records keep the stylesheet as served; file exports need absolute URLs.
+        const blob = new Blob([recordResponses ? result.text : cssText], { type: 'text/css' })
+        collectedAssets.set(href, {
+          url: href,
+          dataUrl: await readBlobAsDataUrl(blob),
+          response: result.response,
+        })
+      }
+      if (!inlineAssets) {
+        return
+      }
+      const styleTag = document.createElement('style')
+      const media = link.getAttribute('media')
+      if (media) {
+        styleTag.setAttribute('media', media)
+      }
+      styleTag.setAttribute('data-pc-inlined-from', href)
+      styleTag.textContent = cssText
+      link.replaceWith(styleTag)
+    }
+
+    root
+      .querySelectorAll('img[src], input[type="image"][src]')
+      .forEach((element) => embedAttribute(element, 'src'))
+    root.querySelectorAll('img[srcset], picture > source[srcset]').forEach(embedSrcset)
+    root
+      .querySelectorAll('video[poster]')
+      .forEach((element) => embedAttribute(element, 'poster'))
+    root
+      .querySelectorAll('link[rel~="icon"][href], link[rel="apple-touch-icon"][href]')
+      .forEach((element) => embedAttribute(element, 'href'))
+    root.querySelectorAll('[style*="url("]').forEach((element) => {
+      tasks.push(
+        embedCssUrls(element.getAttribute('style') ?? '', baseUrl, true).then((styleText) => {
+          element.setAttribute('style', styleText)
+        }),
+      )
+    })
+    root.querySelectorAll('style').forEach((styleNode) => {
+      tasks.push(
+        embedCssUrls(styleNode.textContent ?? '', baseUrl, true).then((cssText) => {
+          styleNode.textContent = cssText
+        }),
+      )
+    })
+    root
+      .querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href]')
+      .forEach((link) => tasks.push(embedStylesheetLink(link)))
+
+    await Promise.all(tasks)
+  }
+
+  const collectScopeCss = (scope: Document | ShadowRoot, matchScope: MatchScope = scope) =>
+    collectUsedCss(scope, matchScope, {
+      includeStyleRules: !inlineComputedStyles,
+      embedCss: (cssText, baseUrl) => embedCssUrls(cssText, baseUrl, embedAssets),
+      fetchBlockedSheet: async (href) => {
+        report(
+          'STYLESHEET_BLOCKED',
+          'info',
+          'styles',
+          'cssRules blocked for a cross-origin stylesheet; fetching it instead',
+          { url: href },
+        )
+        const startedAt = performance.now()
+        const result = await fetchStylesheetText(href)
+        if (!result.text) {
+          report(
+            'STYLESHEET_FETCH_FAILED',
+            'error',
+            'styles',
+            `Failed to fetch stylesheet (${result.error})`,
+            { url: href, startedAt },
+          )
+          return null
+        }
+        if (recordResponses) {
+          const blob = new Blob([result.text], { type: 'text/css' })
+          collectedAssets.set(href, {
+            url: href,
+            dataUrl: await readBlobAsDataUrl(blob),
+            response: result.response,
+          })
+        }
+        return result.text
+      },
+      onSheet: (index, total) => {
+        throwIfCancelled()
+        if (scope === document) {
+          reportProgress('styles', 'Collecting used CSS', index, total)
+        }
+      },
+    })
+
+  const queryAllInclusive = <E extends Element = Element>(
+    root: ParentNode,
+    selector: string,
+  ) => [
+    ...(root instanceof Element && root.matches(selector) ? [root as E] : []),
+    ...Array.from(root.querySelectorAll<E>(selector)),
+  ]
+
+  const syncFormState = (source: ParentNode, target: ParentNode) => {
+    const selector = 'input, textarea, select, details'
+    const targetFields = queryAllInclusive(target, selector)
+    queryAllInclusive(source, selector).forEach((field, index) => {
+      const clone = targetFields[index]
+      if (!clone) {
+        return
+      }
+      if (field instanceof HTMLInputElement) {
+        if (field.type === 'checkbox' || field.type === 'radio') {
+          clone.toggleAttribute('checked', field.checked)
+        } else if (field.type === 'password' && !includePasswords) {
+          clone.removeAttribute('value')
+        } else if (field.type !== 'file') {
+          clone.setAttribute('value', field.value)
+        }
+        return
+      }
+      if (field instanceof HTMLTextAreaElement) {
+        clone.textContent = field.value
+        return
+      }
+      if (field instanceof HTMLSelectElement && clone instanceof HTMLSelectElement) {
+        Array.from(field.options).forEach((option, optionIndex) => {
+          clone.options[optionIndex]?.toggleAttribute('selected', option.selected)
+        })
+        return
+      }
+      if (field instanceof HTMLDetailsElement) {
+        clone.toggleAttribute('open', field.open)
+      }
+    })
+  }
+
+  const promoteLazyAttributes = (source: ParentNode, target: ParentNode) => {
+    const selector = 'img, source, video, audio'
+    const targetMedia = queryAllInclusive(target, selector)
+    queryAllInclusive(source, selector).forEach((element, index) => {
+      const clone = targetMedia[index]
+      if (!clone) {
+        return
+      }
+      const dataSrcset = element.getAttribute('data-srcset')
+      if (dataSrcset) {
+        clone.setAttribute('srcset', dataSrcset)
+      }
+      const loadedSrc =
+        element instanceof HTMLImageElement && element.naturalWidth > 1
+          ? element.currentSrc
+          : ''
+      const src = loadedSrc || element.getAttribute('data-src')
+      if (src) {
+        clone.setAttribute('src', src)
+      }
+    })
+    queryAllInclusive(target, '[loading="lazy"]').forEach((element) =>
+      element.removeAttribute('loading'),
+    )
+  }
+
+  const getFrameId = (element: Element) => {
+    try {
+      const frameId = (chrome.runtime as FrameRuntime).getFrameId?.(element)
+      return typeof frameId === 'number' && frameId >= 0 ? frameId : null
+    } catch {
+      return null
+    }
+  }
+
+  const markChildFrames = (source: ParentNode, target: ParentNode) => {
+    const targetFrames = queryAllInclusive(target, 'iframe')
+    queryAllInclusive<HTMLIFrameElement>(source, 'iframe').forEach((frame, index) => {
+      const clone = targetFrames[index]
+      if (!clone) {
+        return
+      }
+      const src = resolveUrl(frame.getAttribute('src'), document.baseURI)
+      if (src) {
+        clone.setAttribute('data-pc-frame-src', src)
+      }
+      clone.removeAttribute('src')
+      clone.setAttribute('srcdoc', `pagesnap-frame:${childFrames.length}`)
+      childFrames.push({ frameId: getFrameId(frame), src: src ?? 'about:srcdoc' })
+    })
+  }
+
+  const describeElement = (element: Element) => {
+    const id = element.id ? `#${element.id}` : ''
+    const className =
+      typeof element.className === 'string' && element.className.trim()
+        ? `.${element.className.trim().split(/\s+/).join('.')}`
+        : ''
+    return `${element.tagName.toLowerCase()}${id}${className}`
+  }
+
+  // Matches are marked on the live page so the clone carries the marks, whatever the other
+  // transforms do to node order in between.
+  const markCleanupMatches = (
+    source: ParentNode,
+    rules: CleanupRule[],
+    stage: DiagnosticStage,
+    attribute: string,
+    addCleanup: (task: () => void) => void,
+  ) => {
+    const matches: Array<{ rule: CleanupRule; rect: DOMRect; description: string }> = []
+    const marked: Element[] = []
+    rules.forEach((rule) => {
+      let elements: Element[] = []
+      try {
+        elements = queryAllInclusive(source, rule.selector)
+      } catch {
+        report('INVALID_SELECTOR', 'warning', stage, `Invalid selector: ${rule.selector}`)
+        return
+      }
+      elements
+        .filter((element) => !element.hasAttribute(attribute))
+        .forEach((element) => {
+          element.setAttribute(attribute, String(matches.length))
+          marked.push(element)
+          matches.push({
+            rule,
+            rect: element.getBoundingClientRect(),
+            description: describeElement(element),
+          })
+        })
+    })
+    addCleanup(() => marked.forEach((element) => element.removeAttribute(attribute)))
+    return matches
+  }
+
+  // Style attributes in the clone fall to the snapshot CSP, so nodes get a `data-pc-rule` key and
+  // their declarations join the extracted sheet, which sits ahead of the CSP meta.
+  const cloneRules: string[] = []
+  let cloneRuleCount = 0
+  const addCloneRule = (element: Element, declarations: string) => {
+    if (!element.hasAttribute('data-pc-rule')) {
+      cloneRuleCount += 1
+      element.setAttribute('data-pc-rule', String(cloneRuleCount))
+    }
+    cloneRules.push(`[data-pc-rule="${element.getAttribute('data-pc-rule')}"]{${declarations}}`)
+  }
+
+  const applyCleanupMatches = (
+    root: ParentNode,
+    attribute: string,
+    matches: ReturnType<typeof markCleanupMatches>,
+    onApplied: (rule: CleanupRule, description: string) => void,
+  ) => {
+    queryAllInclusive(root, `[${attribute}]`).forEach((clone) => {
+      const match = matches[Number(clone.getAttribute(attribute))]
+      clone.removeAttribute(attribute)
+      if (!match) {
+        return
+      }
+      const { rule, rect, description } = match
+      const width = `${Math.round(rect.width)}px`
+      const height = `${Math.round(rect.height)}px`
+      if (rule.action === 'hide') {
+        addCloneRule(clone, 'display:none !important')
+      } else if (rule.action === 'blank') {
+        clone.replaceChildren()
+        clone
+          .getAttributeNames()
+          .filter((name) => !['id', 'class', 'style', 'data-pc-rule'].includes(name))
+          .forEach((name) => clone.removeAttribute(name))
+        addCloneRule(clone, `width:${width} !important;height:${height} !important`)
+      } else if (rule.action === 'placeholder') {
+        const placeholder = document.createElement('div')
+        placeholder.setAttribute('data-pc-placeholder', 'true')
+        addCloneRule(
+          placeholder,
+          `box-sizing:border-box;width:${width};height:${height};display:flex;` +
+            'align-items:center;justify-content:center;border:1px dashed #94a3b8;' +
+            'background:#f1f5f9;color:#475569;font:12px/1.4 system-ui,sans-serif',
+        )
+        placeholder.textContent = `Removed: ${rule.label ?? rule.selector}`
+        clone.replaceWith(placeholder)
+      } else {
+        clone.remove()
+      }
+      onApplied(rule, description)
+    })
+  }
+
+  const redactionReport = new Map<string, RedactionEntry>()
+  const recordRedaction = (kind: RedactionKind, target: string, count = 1) => {
+    const key = `${kind}\n${target}`
+    const entry = redactionReport.get(key)
+    if (entry) {
+      entry.count += count
+    } else {
+      redactionReport.set(key, { kind, target, count })
+    }
+  }
+
+  const { shouldRedactText, redactText, redactUrl, redactCssUrls, redactDiagnostic } =
+    createRedactor({
+      redactEmails,
+      redactPhoneNumbers,
+      redactCardNumbers,
+      redactPatterns,
+      cookieValues: document.cookie
+        .split(';')
+        .map((part) => part.slice(part.indexOf('=') + 1).trim())
+        .filter((value) => value.length >= 8),
+      record: recordRedaction,
+      onInvalidPattern: (source) =>
+        report('INVALID_PATTERN', 'error', 'redaction', `Invalid redaction pattern: ${source}`),
+    })
+
+  const urlAttributes = new Set([
+    'href',
+    'src',
+    'action',
+    'formaction',
+    'poster',
+    'data',
+    'cite',
+    'background',
+    'data-pc-frame-src',
+    'data-pc-inlined-from',
+  ])
+
+  const redactScope = (scope: ParentNode) => {
+    const walker = document.createTreeWalker(
+      scope as Node,
+      NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT,
+    )
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const parent = node.parentElement
+        if (!shouldRedactText || !parent || parent.tagName === 'STYLE') {
+          continue
+        }
+        const text = node.nodeValue ?? ''
+        const redacted = redactText(text, describeElement(parent))
+        if (redacted !== text) {
+          node.nodeValue = redacted
+        }
+        continue
+      }
+
+      const element = node as Element
+      if (element.tagName === 'STYLE' && stripUrlTokens) {
+        element.textContent = redactCssUrls(element.textContent ?? '', 'style')
+      }
+      element.getAttributeNames().forEach((name) => {
+        const isMarker = name.startsWith('data-pc-')
+        if (stripDataAttributes && name.startsWith('data-') && !isMarker) {
+          element.removeAttribute(name)
+          recordRedaction('data-attribute', name)
+          return
+        }
+        const value = element.getAttribute(name) ?? ''
+        if (value.startsWith('data:')) {
+          return
+        }
+        const target = `${describeElement(element)} [${name}]`
+        let next = value
+        if (stripUrlTokens) {
+          if (urlAttributes.has(name)) {
+            next = redactUrl(next, target)
+          } else if (name === 'srcset') {
+            next = serializeSrcset(
+              parseSrcset(next).map((candidate) => ({
+                ...candidate,
+                url: redactUrl(candidate.url, target),
+              })),
+            )
+          } else if (name === 'style') {
+            next = redactCssUrls(next, target)
+          }
+        }
+        if (shouldRedactText && !isMarker && !['id', 'class', 'style'].includes(name)) {
+          next = redactText(next, target)
+        }
+        if (next !== value) {
+          element.setAttribute(name, next)
+        }
+      })
+    }
+  }
+
+  const rasterizeMediaElements = (source: ParentNode, target: ParentNode) => {
+    const targetVideos = queryAllInclusive(target, 'video')
+    queryAllInclusive<HTMLVideoElement>(source, 'video').forEach((video, index) => {
+      const clone = targetVideos[index]
+      if (
+        !clone ||
+        video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA ||
+        !video.videoWidth
+      ) {
+        return
+      }
+      try {
+        const canvas = document.createElement('canvas')
+        canvas.width = video.videoWidth
+        canvas.height = video.videoHeight
+        canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+        clone.setAttribute('poster', canvas.toDataURL('image/jpeg', 0.92))
+      } catch {
+        report(
+          'VIDEO_FRAME_BLOCKED',
+          'warning',
+          'media',
+          `Video frame blocked by CORS: ${describeElement(video)}`,
+          { url: video.currentSrc || null },
+        )
+      }
+    })
+
+    const targetCanvases = queryAllInclusive(target, 'canvas')
+    queryAllInclusive<HTMLCanvasElement>(source, 'canvas').forEach((canvas, index) => {
+      const clone = targetCanvases[index]
+      if (!clone) {
+        return
+      }
+      let dataUrl: string
+      try {
+        dataUrl = canvas.toDataURL('image/png')
+      } catch {
+        report(
+          'CANVAS_TAINTED',
+          'warning',
+          'media',
+          `Canvas is tainted and could not be captured: ${describeElement(canvas)}`,
+        )
+        return
+      }
+      const image = document.createElement('img')
+      Array.from(clone.attributes).forEach(({ name, value }) => image.setAttribute(name, value))
+      image.setAttribute('src', dataUrl)
+      image.setAttribute('alt', '')
+      image.setAttribute('data-pc-canvas', 'true')
+      const { width, height } = getComputedStyle(canvas)
+      if (width.endsWith('px') && height.endsWith('px')) {
+        image.style.width = width
+        image.style.height = height
+      }
+      clone.replaceWith(image)
+    })
+  }
+
+  const inheritedProperties = [
+    'color',
+    'font-family',
+    'font-size',
+    'font-style',
+    'font-weight',
+    'font-stretch',
+    'font-kerning',
+    'font-feature-settings',
+    'font-variation-settings',
+    'font-variant-caps',
+    'font-variant-ligatures',
+    'font-variant-numeric',
+    'line-height',
+    'letter-spacing',
+    'word-spacing',
+    'word-break',
+    'overflow-wrap',
+    'hyphens',
+    'tab-size',
+    'text-align',
+    'text-indent',
+    'text-transform',
+    'text-shadow',
+    'text-rendering',
+    'white-space',
+    'direction',
+    'writing-mode',
+    'visibility',
+    'cursor',
+    'list-style-type',
+    'list-style-position',
+    'list-style-image',
+    'quotes',
+    'border-collapse',
+    'border-spacing',
+    'caption-side',
+    'empty-cells',
+    'color-scheme',
+    'caret-color',
+    'accent-color',
+    'pointer-events',
+    'fill',
+    'stroke',
+    '-webkit-font-smoothing',
+    '-webkit-text-fill-color',
+  ]
+  const inheritedPropertySet = new Set(inheritedProperties)
+
+  const createDefaultStyleSandbox = () => {
+    const frame = document.createElement('iframe')
+    frame.setAttribute('data-pc-sandbox', 'true')
+    frame.style.cssText =
+      'position:absolute;top:0;left:0;width:0;height:0;border:0;visibility:hidden;'
+    document.documentElement.appendChild(frame)
+    const sandboxDocument = frame.contentDocument
+    sandboxDocument?.open()
+    sandboxDocument?.write(
+      document.compatMode === 'CSS1Compat' ? '<!DOCTYPE html><body></body>' : '<body></body>',
+    )
+    sandboxDocument?.close()
+
+    const defaults = new Map<string, Map<string, string>>()
+    const getDefaults = (namespace: string | null, localName: string) => {
+      const key = `${namespace}|${localName}`
+      const cached = defaults.get(key)
+      if (cached) {
+        return cached
+      }
+      const values = new Map<string, string>()
+      const view = sandboxDocument?.defaultView
+      if (sandboxDocument?.body && view) {
+        const sample = sandboxDocument.createElementNS(namespace, localName)
+        let container: Element = sandboxDocument.body
+        if (namespace === 'http://www.w3.org/2000/svg' && localName !== 'svg') {
+          container = sandboxDocument.createElementNS(namespace, 'svg')
+          sandboxDocument.body.appendChild(container)
+        }
+        container.appendChild(sample)
+        const computed = view.getComputedStyle(sample)
+        Array.from(computed).forEach((name) =>
+          values.set(name, computed.getPropertyValue(name)),
+        )
+        if (container === sandboxDocument.body) {
+          sample.remove()
+        } else {
+          container.remove()
+        }
+      }
+      defaults.set(key, values)
+      return values
+    }
+
+    return { getDefaults, dispose: () => frame.remove() }
+  }
+
+  let defaultStyleSandbox: ReturnType<typeof createDefaultStyleSandbox> | null = null
+  let frozenStyleCount = 0
+
+  const diffComputedStyle = (
+    style: CSSStyleDeclaration,
+    defaults: Map<string, string>,
+    parentStyle: CSSStyleDeclaration | null,
+  ) => {
+    const declarations: string[] = []
+    for (const name of Array.from(style)) {
+      if (name.startsWith('--')) {
+        continue
+      }
+      const value = style.getPropertyValue(name)
+      const baseline =
+        inheritedPropertySet.has(name) && parentStyle
+          ? parentStyle.getPropertyValue(name)
+          : defaults.get(name)
+      if (value !== baseline) {
+        declarations.push(`${name}:${value}`)
+      }
+    }
+    return declarations.join(';')
+  }
+
+  // Frozen styles become rules keyed by `data-pc-style` rather than style attributes, which the
+  // snapshot CSP would block.
+  const freezeComputedStyles = (source: ParentNode, target: ParentNode) => {
+    if (!defaultStyleSandbox) {
+      defaultStyleSandbox = createDefaultStyleSandbox()
+      cleanupTasks.push(defaultStyleSandbox.dispose)
+    }
+    const { getDefaults } = defaultStyleSandbox
+    const frozenRules: string[] = []
+    const skippedTags = new Set(['head', 'script', 'style', 'link', 'meta', 'title', 'base'])
+    const targetElements = queryAllInclusive(target, '*')
+    queryAllInclusive(source, '*').forEach((element, index) => {
+      const clone = targetElements[index]
+      if (!clone || skippedTags.has(element.localName) || element.closest('head, template')) {
+        return
+      }
+      const styleParent =
+        element.parentElement ??
+        (element.parentNode instanceof ShadowRoot ? element.parentNode.host : null)
+      const computed = getComputedStyle(element)
+      const parentStyle = styleParent ? getComputedStyle(styleParent) : null
+      const declarations = diffComputedStyle(
+        computed,
+        getDefaults(element.namespaceURI, element.localName),
+        parentStyle,
+      )
+      clone.removeAttribute('style')
+      const selector = () => {
+        if (!clone.hasAttribute('data-pc-style')) {
+          frozenStyleCount += 1
+          clone.setAttribute('data-pc-style', String(frozenStyleCount))
+        }
+        return `[data-pc-style="${clone.getAttribute('data-pc-style')}"]`
+      }
+      if (declarations) {
+        frozenRules.push(`${selector()}{${declarations}}`)
+      }
+
+      for (const pseudo of ['::before', '::after']) {
+        const pseudoStyle = getComputedStyle(element, pseudo)
+        if (pseudoStyle.content === 'none' || pseudoStyle.content === 'normal') {
+          continue
+        }
+        const pseudoDeclarations = diffComputedStyle(
+          pseudoStyle,
+          getDefaults('http://www.w3.org/1999/xhtml', 'span'),
+          computed,
+        )
+        frozenRules.push(`${selector()}${pseudo}{${pseudoDeclarations}}`)
+      }
+    })
+    return frozenRules.join('\n')
+  }
+
+  const serializeAdoptedStyleSheets = (scope: Document | ShadowRoot) =>
+    scope.adoptedStyleSheets
+      .filter((sheet) => !sheet.disabled)
+      .map((sheet) => {
+        const styleTag = document.createElement('style')
+        styleTag.setAttribute('data-pc-adopted', 'true')
+        if (sheet.media.mediaText) {
+          styleTag.setAttribute('media', sheet.media.mediaText)
+        }
+        styleTag.textContent = Array.from(sheet.cssRules)
+          .map((rule) => rule.cssText)
+          .join('\n')
+        return styleTag
+      })
+
+  const serializeShadowRoots = async (source: ParentNode, target: ParentNode) => {
+    const targetElements = queryAllInclusive(target, '*')
+    const sourceElements = queryAllInclusive(source, '*')
+    for (const [index, host] of sourceElements.entries()) {
+      const shadowRoot = host.shadowRoot
+      const clone = targetElements[index]
+      if (!shadowRoot || !clone) {
+        continue
+      }
+      const template = document.createElement('template')
+      template.setAttribute('shadowrootmode', 'open')
+      if (shadowRoot.delegatesFocus) {
+        template.setAttribute('shadowrootdelegatesfocus', '')
+      }
+      shadowRoot.childNodes.forEach((child) => {
+        template.content.appendChild(child.cloneNode(true))
+      })
+      if (preserveFormState) {
+        syncFormState(shadowRoot, template.content)
+      }
+      if (resolveLazyContent) {
+        promoteLazyAttributes(shadowRoot, template.content)
+      }
+      markChildFrames(shadowRoot, template.content)
+      const computedCss = inlineComputedStyles
+        ? freezeComputedStyles(shadowRoot, template.content)
+        : ''
+      await serializeShadowRoots(shadowRoot, template.content)
+      if (rasterizeMedia) {
+        rasterizeMediaElements(shadowRoot, template.content)
+      }
+      if (stripOriginalStyles) {
+        const shadowCss = [await collectScopeCss(shadowRoot), computedCss]
+          .filter(Boolean)
+          .join('\n')
+        if (shadowCss) {
+          const styleTag = document.createElement('style')
+          styleTag.setAttribute('data-pc-extracted', 'true')
+          styleTag.textContent = shadowCss
+          template.content.prepend(styleTag)
+        }
+      } else {
+        template.content.append(...serializeAdoptedStyleSheets(shadowRoot))
+      }
+      clone.prepend(template)
+    }
+  }
+
+  const findAncestorBackground = (element: Element) => {
+    for (let node = element.parentElement; node; node = node.parentElement) {
+      const { backgroundColor } = getComputedStyle(node)
+      if (
+        backgroundColor &&
+        backgroundColor !== 'transparent' &&
+        backgroundColor !== 'rgba(0, 0, 0, 0)'
+      ) {
+        return backgroundColor
+      }
+    }
+    return null
+  }
+
+  const buildSelectionShell = (picked: Element, subtree: Element) => {
+    const shell = document.documentElement.cloneNode(false) as HTMLElement
+    if (document.head) {
+      shell.appendChild(document.head.cloneNode(true))
+    }
+    const body =
+      (document.body?.cloneNode(false) as HTMLElement | undefined) ??
+      document.createElement('body')
+    const background = findAncestorBackground(picked)
+    if (background) {
+      addCloneRule(body, `background-color:${background}`)
+    }
+
+    // The inherited styles go in the extracted sheet; the snapshot CSP would drop a style attribute.
+    const context = document.createElement('div')
+    context.setAttribute('data-pc-selection', 'true')
+    const declarations = ['display:contents']
+    if (picked.parentElement) {
+      const parentStyle = getComputedStyle(picked.parentElement)
+      const customProperties = Array.from(parentStyle).filter((name) => name.startsWith('--'))
+      for (const name of [...inheritedProperties, ...customProperties]) {
+        const value = parentStyle.getPropertyValue(name)
+        if (value) {
+          declarations.push(`${name}:${value}`)
+        }
+      }
+    }
+    cloneRules.push(`[data-pc-selection]{${declarations.join(';')}}`)
+
+    context.appendChild(subtree)
+    body.appendChild(context)
+    shell.appendChild(body)
+    return shell
+  }
+
+  const collectCloneScopes = (root: ParentNode): ParentNode[] => [
+    root,
+    ...Array.from(
+      root.querySelectorAll<HTMLTemplateElement>('template[shadowrootmode]'),
+    ).flatMap((template) => collectCloneScopes(template.content)),
+  ]
+
+  const cleanupTasks: Array<() => void> = []
+  const pickedElement = captureSelection ? document.querySelector('[data-pc-picked]') : null
+  const context: CaptureContext = {
+    options,
+    source: pickedElement ?? document.documentElement,
+    pickedElement,
+    report,
+    progress: reportProgress,
+    addCleanup: (task) => cleanupTasks.push(task),
+    throwIfCancelled,
+  }
+
+  const lazyContentPlugin: CapturePlugin = {
+    name: 'lazy-content',
+    beforeClone: scrollToResolveLazyContent,
+    transformClone: ({ source, clone }) => promoteLazyAttributes(source, clone),
+  }
+
+  const freezePlugin: CapturePlugin = {
+    name: 'freeze',
+    beforeClone: async ({ progress, addCleanup }) => {
+      progress('freeze', 'Freezing animations and media')
+      addCleanup(injectFreezeStyles())
+      pauseMedia()
+      await waitForStableFrames(2)
+    },
+  }
+
+  let extractedCss = ''
+  const usedCssPlugin: CapturePlugin = {
+    name: 'used-css',
+    beforeClone: async ({ pickedElement }) => {
+      extractedCss = await collectScopeCss(document, pickedElement ?? document)
+    },
+    transformCss: (cssText) => [cssText, extractedCss].filter(Boolean).join('\n'),
+  }
+
+  const formStatePlugin: CapturePlugin = {
+    name: 'form-state',
+    transformClone: ({ source, clone }) => syncFormState(source, clone),
+  }
+
+  const framesPlugin: CapturePlugin = {
+    name: 'frames',
+    transformClone: ({ source, clone }) => markChildFrames(source, clone),
+  }
+
+  let computedCss = ''
+  const computedStylesPlugin: CapturePlugin = {
+    name: 'computed-styles',
+    transformClone: ({ source, clone }) => {
+      computedCss = freezeComputedStyles(source, clone)
+    },
+    // The assets pass runs before the extracted sheet exists, so frozen url() values embed here.
+    transformCss: async (cssText) =>
+      [cssText, await embedCssUrls(computedCss, location.href, embedAssets)]
+        .filter(Boolean)
+        .join('\n'),
+  }
+
+  const shadowRootsPlugin: CapturePlugin = {
+    name: 'shadow-roots',
+    transformClone: ({ source, clone }) => serializeShadowRoots(source, clone),
+  }
+
+  const rasterizePlugin: CapturePlugin = {
+    name: 'rasterize-media',
+    transformClone: ({ source, clone }) => rasterizeMediaElements(source, clone),
+  }
+
+  let cleanupMatches: ReturnType<typeof markCleanupMatches> = []
+  const cleanupPlugin: CapturePlugin = {
+    name: 'cleanup',
+    beforeClone: ({ source, addCleanup }) => {
+      cleanupMatches = markCleanupMatches(
+        source,
+        cleanupRules,
+        'cleanup',
+        'data-pc-cleanup',
+        addCleanup,
+      )
+    },
+    transformClone: ({ clone }) =>
+      applyCleanupMatches(clone, 'data-pc-cleanup', cleanupMatches, (rule, description) =>
+        report(
+          'ELEMENT_CLEANED',
+          'info',
+          'cleanup',
+          `Cleanup ${rule.action} (${rule.label ?? rule.selector}): ${description}`,
+        ),
+      ),
+  }
+
+  let redactionMatches: ReturnType<typeof markCleanupMatches> = []
+  const redactElementsPlugin: CapturePlugin = {
+    name: 'redact-elements',
+    beforeClone: ({ source, addCleanup }) => {
+      redactionMatches = markCleanupMatches(
+        source,
+        redactSelectors.map((selector) => ({ selector, action: 'blank' })),
+        'redaction',
+        'data-pc-redact',
+        addCleanup,
+      )
+    },
+    transformClone: ({ clone }) =>
+      applyCleanupMatches(clone, 'data-pc-redact', redactionMatches, (_rule, description) =>
+        recordRedaction('element', description),
+      ),
+  }
+
+  const selectionPlugin: CapturePlugin = {
+    name: 'selection',
+    transformClone: ({ pickedElement, clone }) =>
+      pickedElement ? buildSelectionShell(pickedElement, clone) : undefined,
+  }
+
+  const cloneRulesPlugin: CapturePlugin = {
+    name: 'clone-rules',
+    transformCss: (cssText) => [cssText, ...cloneRules].filter(Boolean).join('\n'),
+  }
+
+  const adoptedStylesPlugin: CapturePlugin = {
+    name: 'adopted-styles',
+    transformClone: ({ clone }) => {
+      clone.querySelector('head')?.append(...serializeAdoptedStyleSheets(document))
+    },
+  }
+
+  const markersPlugin: CapturePlugin = {
+    name: 'markers',
+    transformClone: ({ clone }) => {
+      clone.querySelectorAll('base').forEach((base) => base.remove())
+      clone.querySelectorAll('[data-pc-picker]').forEach((node) => node.remove())
+      clone
+        .querySelectorAll('[data-pc-picked]')
+        .forEach((node) => node.removeAttribute('data-pc-picked'))
+    },
+  }
+
+  const absoluteUrlsPlugin: CapturePlugin = {
+    name: 'absolute-urls',
+    transformClone: ({ scopes }) => scopes().forEach(absolutizeUrls),
+  }
+
+  const scriptsPlugin: CapturePlugin = {
+    name: 'remove-scripts',
+    transformClone: ({ scopes }) =>
+      scopes().forEach((scope) => {
+        scope.querySelectorAll('script').forEach((script) => script.remove())
+        scope
+          .querySelectorAll('link[rel="modulepreload"], link[rel="preload"][as="script"]')
+          .forEach((link) => link.remove())
+      }),
+  }
+
+  const originalStylesPlugin: CapturePlugin = {
+    name: 'remove-original-styles',
+    transformClone: ({ scopes }) =>
+      scopes().forEach((scope) => {
+        scope
+          .querySelectorAll('style:not([data-pc-extracted])')
+          .forEach((styleNode) => styleNode.remove())
+        scope.querySelectorAll('link[rel="stylesheet"]').forEach((link) => link.remove())
+        scope
+          .querySelectorAll('link[rel="preload"][as="style"]')
+          .forEach((link) => link.remove())
+      }),
+  }
+
+  const assetsPlugin: CapturePlugin = {
+    name: 'assets',
+    transformClone: async ({ scopes }) => {
+      await Promise.all(scopes().map(embedDomAssets))
+    },
+  }
+
+  const redactTextPlugin: CapturePlugin = {
+    name: 'redact-text',
+    transformClone: ({ scopes }) => scopes().forEach(redactScope),
+    transformCss: (cssText) =>
+      stripUrlTokens ? redactCssUrls(cssText, 'extracted styles') : cssText,
+  }
+
+  // Shadow-root sheets sit in the body, after the meta, so `<style>` elements are allowed anywhere.
+  // Style attributes stay blocked, and nothing a sheet references can load from outside the file.
+  const cspPlugin: CapturePlugin = {
+    name: 'csp',
+    serialize: ({ clone }) => {
+      const meta = document.createElement('meta')
+      meta.setAttribute('http-equiv', 'Content-Security-Policy')
+      meta.setAttribute(
+        'content',
+        "default-src 'self' data:; style-src-elem 'self' data: 'unsafe-inline'; " +
+          "script-src 'none'; object-src 'none'; base-uri 'none';",
+      )
+      clone.querySelector('head')?.appendChild(meta)
+    },
+  }
+
+  const documentResponsePlugin: CapturePlugin = {
+    name: 'document-response',
+    serialize: async () => {
+      const documentUrl = resolveAssetUrl(location.href.split('#')[0], location.href)
+      if (!documentUrl) {
+        return
+      }
+      // The refetched page is the original markup, so it would undo every redaction.
+      if (hasRedaction(options)) {
+        report(
+          'RESPONSE_NOT_RECORDED',
+          'info',
+          'redaction',
+          'Page response not recorded because redaction is on.',
+        )
+        return
+      }
+      const startedAt = performance.now()
+      const { dataUrl, response, error } = await fetchAssetDataUrl(documentUrl)
+      if (dataUrl) {
+        collectedAssets.set(documentUrl, { url: documentUrl, dataUrl, response })
+      } else {
+        report(
+          'RESPONSE_NOT_RECORDED',
+          'warning',
+          'assets',
+          `Failed to record page response (${error})`,
+          { url: documentUrl, startedAt },
+        )
+      }
+    },
+  }
+
+  // Built-in stages in the order their hooks run. Extra plugins see the clone once cleanup and
+  // selection are done, and still go through URL, script, asset, redaction and CSP handling.
+  const plugins = [
+    resolveLazyContent && lazyContentPlugin,
+    freezePlugin,
+    stripOriginalStyles && usedCssPlugin,
+    preserveFormState && formStatePlugin,
+    framesPlugin,
+    inlineComputedStyles && computedStylesPlugin,
+    shadowRootsPlugin,
+    rasterizeMedia && rasterizePlugin,
+    cleanupPlugin,
+    redactElementsPlugin,
+    selectionPlugin,
+    cloneRulesPlugin,
+    !stripOriginalStyles && adoptedStylesPlugin,
+    markersPlugin,
+    ...extraPlugins,
+    absoluteUrlsPlugin,
+    removeScripts && scriptsPlugin,
+    stripOriginalStyles && originalStylesPlugin,
+    embedAssets && assetsPlugin,
+    (shouldRedactText || stripDataAttributes || stripUrlTokens) && redactTextPlugin,
+    addCsp && cspPlugin,
+    recordResponses && documentResponsePlugin,
+  ].filter((plugin): plugin is CapturePlugin => Boolean(plugin))
+
+  try {
+    for (const plugin of plugins) {
+      await plugin.beforeClone?.(context)
+      throwIfCancelled()
+    }
+
+    reportProgress('clone', 'Cloning the document')
+    const cloneContext: CloneContext = {
+      ...context,
+      clone: context.source.cloneNode(true) as HTMLElement,
+      scopes: () => collectCloneScopes(cloneContext.clone),
+    }
+    for (const plugin of plugins) {
+      cloneContext.clone = (await plugin.transformClone?.(cloneContext)) ?? cloneContext.clone
+      throwIfCancelled()
+    }
+
+    let cssText = ''
+    for (const plugin of plugins) {
+      cssText = plugin.transformCss ? await plugin.transformCss(cssText, cloneContext) : cssText
+    }
+    const headTarget = cloneContext.clone.querySelector('head')
+    if (headTarget && cssText) {
+      const styleTag = document.createElement('style')
+      styleTag.setAttribute('data-pc-extracted', 'true')
+      styleTag.textContent = cssText
+      headTarget.appendChild(styleTag)
+    }
+
+    for (const plugin of plugins) {
+      await plugin.serialize?.(cloneContext)
+    }
+
+    throwIfCancelled()
+    reportProgress('serialize', 'Serializing the snapshot')
+    const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>` : '<!DOCTYPE html>'
+
+    return {
+      html: `${doctype}\n${cloneContext.clone.outerHTML}`,
+      title: shouldRedactText ? redactText(document.title, 'title') : document.title,
+      url: stripUrlTokens ? redactUrl(location.href, 'page url') : location.href,
+      diagnostics: stripUrlTokens ? diagnostics.map(redactDiagnostic) : diagnostics,
+      frames: childFrames.map((frame) =>
+        stripUrlTokens ? { ...frame, src: redactUrl(frame.src, 'frame') } : frame,
+      ),
+      assets: Array.from(collectedAssets.values()).map((asset) =>
+        stripUrlTokens ? { ...asset, url: redactUrl(asset.url, 'asset') } : asset,
+      ),
+      redactions: Array.from(redactionReport.values()),
+    }
+  } catch (error) {
+    if (captureAbort.signal.aborted) {
+      return null
+    }
+    throw error
+  } finally {
+    cleanupTasks.forEach((task) => task())
+    progressPort?.disconnect()
+  }
+}
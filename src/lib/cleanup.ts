@@ -0,0 +1,81 @@
+import type { CleanupAction, CleanupRule } from '@/lib/cloner'
+
+export type CleanupPack = {
+  id: string
+  name: string
+  rules: CleanupRule[]
+}
+
+const CLEANUP_ACTIONS: CleanupAction[] = ['remove', 'hide', 'blank', 'placeholder']
+
+export const CLEANUP_PACKS: CleanupPack[] = [
+  {
+    id: 'extension-overlays',
+    name: 'Extension overlays',
+    rules: [
+      { selector: 'plasmo-csui', action: 'remove', label: 'Plasmo overlay' },
+      { selector: 'css-to-tailwind', action: 'remove', label: 'CSS to Tailwind overlay' },
+      { selector: 'browser-mcp-container', action: 'remove', label: 'Browser MCP overlay' },
+      { selector: '[data-extension-id]', action: 'remove', label: 'Extension node' },
+    ],
+  },
+  {
+    id: 'consent-banners',
+    name: 'Consent banners',
+    rules: [
+      { selector: '#onetrust-consent-sdk', action: 'remove', label: 'OneTrust' },
+      { selector: '#CybotCookiebotDialog', action: 'remove', label: 'Cookiebot' },
+      { selector: '#usercentrics-root', action: 'remove', label: 'Usercentrics' },
+      { selector: '.qc-cmp2-container', action: 'remove', label: 'Quantcast Choice' },
+      { selector: '#didomi-host', action: 'remove', label: 'Didomi' },
+      { selector: '.osano-cm-window', action: 'remove', label: 'Osano' },
+      { selector: '#truste-consent-track', action: 'remove', label: 'TrustArc' },
+      { selector: '.cc-window', action: 'remove', label: 'Cookie Consent' },
+      { selector: '[id^="sp_message_container"]', action: 'remove', label: 'Sourcepoint' },
+    ],
+  },
+  {
+    id: 'chat-widgets',
+    name: 'Chat widgets',
+    rules: [
+      {
+        selector: '#intercom-container, .intercom-lightweight-app',
+        action: 'remove',
+        label: 'Intercom',
+      },
+      { selector: '#hubspot-messages-iframe-container', action: 'remove', label: 'HubSpot chat' },
+      {
+        selector: '#drift-widget-container, #drift-frame-controller',
+        action: 'remove',
+        label: 'Drift',
+      },
+      { selector: '#launcher, #webWidget', action: 'remove', label: 'Zendesk' },
+      { selector: '#crisp-chatbox', action: 'remove', label: 'Crisp' },
+      { selector: '#tidio-chat', action: 'remove', label: 'Tidio' },
+      { selector: '.fb_dialog, .fb-customerchat', action: 'remove', label: 'Messenger chat' },
+    ],
+  },
+]
+
+export const DEFAULT_CLEANUP_PACKS = ['extension-overlays']
+
+export const resolveCleanupRules = (packIds: string[], customRules: CleanupRule[]) => [
+  ...CLEANUP_PACKS.filter((pack) => packIds.includes(pack.id)).flatMap((pack) => pack.rules),
+  ...customRules,
+]
+
+export const parseCleanupRules = (text: string): CleanupRule[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [first, ...rest] = line.split(/\s+/)
+      const action = first.toLowerCase() as CleanupAction
+      return CLEANUP_ACTIONS.includes(action) && rest.length > 0
+        ? { selector: rest.join(' '), action }
+        : { selector: line, action: 'remove' }
+    })
+
+export const formatCleanupRules = (rules: CleanupRule[]) =>
+  rules.map(({ selector, action }) => `${action} ${selector}`).join('\n')
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { downloadSnapshot, type CloneResult } from '@/lib/cloner'
+
+const snapshot: CloneResult = {
+  html: '<!DOCTYPE html><html><head></head><body></body></html>',
+  title: 'Page',
+  url: 'https://example.com/',
+  diagnostics: [],
+  assets: [],
+  redactions: [],
+}
+
+const stubDownloads = () => {
+  const filenames: string[] = []
+  vi.stubGlobal('chrome', {
+    runtime: {},
+    downloads: {
+      download: (options: { filename: string }, callback: (downloadId: number) => void) => {
+        filenames.push(options.filename)
+        callback(filenames.length)
+      },
+    },
+  })
+  return filenames
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('downloadSnapshot', () => {
+  it('writes a diagnostics report next to a clean capture', async () => {
+    const filenames = stubDownloads()
+    await downloadSnapshot(snapshot, 'html', 'Page')
+    expect(filenames).toEqual(['Page.html', 'Page-diagnostics.json'])
+  })
+})
@@ -1,33 +1,171 @@
+import { beginCaptureFetches } from '@/lib/asset-fetch'
+import type { CaptureRuntimeWindow, SerializedResult } from '@/lib/capture-runtime'
+import { resolveCleanupRules } from '@/lib/cleanup'
+import { createDiagnostic, createDiagnosticsReport, type Diagnostic } from '@/lib/diagnostics'
+import { serializeMhtml } from '@/lib/mhtml'
+import { createRedactionReport } from '@/lib/redaction'
+import { createWarc } from '@/lib/warc'
+import { createZip, type ZipEntry } from '@/lib/zip'
+
 export type CloneOptions = {
   removeScripts: boolean
   removeOriginalStyles: boolean
   useHostFetch: boolean
   addCsp: boolean
+  inlineAssets: boolean
+  maxInlineAssetBytes: number
+  preserveFormState: boolean
+  includePasswords: boolean
+  rasterizeMedia: boolean
+  captureSelection: boolean
+  inlineComputedStyles: boolean
+  collectAssets: boolean
+  recordResponses: boolean
+  resolveLazyContent: boolean
+  cleanupPacks: string[]
+  cleanupRules: CleanupRule[]
+  redactEmails: boolean
+  redactPhoneNumbers: boolean
+  redactCardNumbers: boolean
+  redactPatterns: string[]
+  redactSelectors: string[]
+  stripDataAttributes: boolean
+  stripUrlTokens: boolean
+  fetchTimeoutMs: number
+  fetchRetries: number
+  fetchAllowedHosts: string[]
+}
+
+export type DownloadFormat = 'html' | 'zip' | 'mhtml' | 'warc'
+
+export type CleanupAction = 'remove' | 'hide' | 'blank' | 'placeholder'
+
+export type CleanupRule = {
+  selector: string
+  action: CleanupAction
+  label?: string
+}
+
+export type RedactionKind =
+  'email' | 'phone' | 'card' | 'pattern' | 'element' | 'data-attribute' | 'url'
+
+export type RedactionEntry = {
+  kind: RedactionKind
+  target: string
+  count: number
+}
+
+export type CaptureStage = 'scroll' | 'freeze' | 'styles' | 'clone' | 'assets' | 'serialize'
+
+export type CaptureProgress = {
+  stage: CaptureStage
+  message: string
+  completed: number | null
+  total: number | null
+}
+
+export type CaptureControls = {
+  signal?: AbortSignal
+  onProgress?: (progress: CaptureProgress) => void
+  // Extension files injected after the capture script; they add plugins with
+  // `registerCapturePlugin`.
+  pluginFiles?: string[]
+}
+
+export type CapturedResponse = {
+  status: number
+  statusText: string
+  headers: Array<[string, string]>
+}
+
+export type CapturedAsset = {
+  url: string
+  dataUrl: string
+  response?: CapturedResponse
 }
 
 export type CloneResult = {
   html: string
-  warnings: string[]
+  diagnostics: Diagnostic[]
   title: string | null
+  url: string | null
+  assets: CapturedAsset[]
+  redactions: RedactionEntry[]
 }
 
-type SerializedResult = {
-  html: string
-  warnings: string[]
+export const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// A srcdoc frame inherits the parent's CSP, which blocks style attributes but not style elements.
+const framePlaceholderHtml = (src: string) =>
+  '<!DOCTYPE html><html><head><style>body{margin:0;display:flex;align-items:center;' +
+  'justify-content:center;min-height:100vh;font:12px system-ui,sans-serif;' +
+  'color:#64748b;background:#f8fafc}</style></head>' +
+  `<body>Frame not captured: ${escapeHtml(src)}</body></html>`
+
+// Child frames are referenced from their parent's HTML by a `srcdoc="pagesnap-frame:<index>"`
+// token and replaced bottom-up with the captured frame document. The snapshot CSP applies to them
+// too, so their sheets rely on it allowing `<style>` elements.
+const assembleFrameHtml = (
+  frame: SerializedResult,
+  frameResults: Map<number, SerializedResult>,
+  diagnostics: Diagnostic[],
+  visited: Set<number>,
+  startedAt: number,
+): string => {
+  diagnostics.push(...frame.diagnostics)
+  return frame.frames.reduce((html, { frameId, src }, index) => {
+    const child = frameId !== null && !visited.has(frameId) ? frameResults.get(frameId) : undefined
+    let frameHtml: string
+    if (child && frameId !== null) {
+      visited.add(frameId)
+      frameHtml = assembleFrameHtml(child, frameResults, diagnostics, visited, startedAt)
+    } else {
+      diagnostics.push(
+        createDiagnostic({
+          code: 'FRAME_NOT_CAPTURED',
+          severity: 'warning',
+          stage: 'frames',
+          message: `Frame could not be captured: ${src}`,
+          url: src,
+          elapsedMs: Math.round(performance.now() - startedAt),
+        }),
+      )
+      frameHtml = framePlaceholderHtml(src)
+    }
+    return html.replace(
+      `srcdoc="pagesnap-frame:${index}"`,
+      () => `srcdoc="${escapeAttribute(frameHtml)}"`,
+    )
+  }, frame.html)
 }
 
 export const sanitizeFileName = (value: string) =>
   value.trim().replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, '-')
 
-export const downloadHtml = (html: string, filename: string) =>
-  new Promise<void>((resolve, reject) => {
-    const blob = new Blob([html], { type: 'text/html' })
-    const url = URL.createObjectURL(blob)
+export const readBlobAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read blob.'))
+    reader.readAsDataURL(blob)
+  })
+
+export const downloadBlob = async (blob: Blob, filename: string) => {
+  // Service workers have no object URLs, so the background falls back to a data URL.
+  const useObjectUrl = typeof URL.createObjectURL === 'function'
+  const url = useObjectUrl ? URL.createObjectURL(blob) : await readBlobAsDataUrl(blob)
 
+  return new Promise<void>((resolve, reject) => {
     chrome.downloads.download(
       { url, filename, saveAs: false, conflictAction: 'uniquify' },
       (downloadId) => {
-        URL.revokeObjectURL(url)
+        if (useObjectUrl) {
+          URL.revokeObjectURL(url)
+        }
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message))
           return
@@ -40,391 +178,287 @@ export const downloadHtml = (html: string, filename: string) =>
       },
     )
   })
-
-export const cloneActiveTab = async (options: CloneOptions): Promise<CloneResult> => {
-  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
-  if (!tab?.id) {
-    throw new Error('No active tab detected.')
-  }
-
-  const [{ result }] = await chrome.scripting.executeScript({
-    target: { tabId: tab.id },
-    func: async (options: CloneOptions): Promise<SerializedResult> => {
-      const { removeScripts, removeOriginalStyles, useHostFetch, addCsp } = options
-      const inlineAssets = false
-      const warnings: string[] = []
-
-      const injectFreezeStyles = () => {
-        const style = document.createElement('style')
-        style.setAttribute('data-pc-freeze', 'true')
-        style.textContent = `
-* {
-  animation: none !important;
-  transition: none !important;
-  scroll-behavior: auto !important;
-  caret-color: auto !important;
 }
-html, body {
-  scroll-behavior: auto !important;
-}
-`
-        document.head?.appendChild(style)
-        return () => {
-          style.remove()
-        }
-      }
 
-      const pauseMedia = () => {
-        const media = document.querySelectorAll<HTMLMediaElement>('audio, video')
-        media.forEach((el) => {
-          try {
-            el.pause()
-          } catch {
-            // Ignore media errors.
-          }
-        })
-      }
-
-      const waitForStableFrames = async (count: number) => {
-        for (let i = 0; i < count; i += 1) {
-          await new Promise<void>((resolve) => {
-            requestAnimationFrame(() => resolve())
-          })
-        }
-      }
-
-      const rewriteCssUrls = (cssText: string, baseUrl: string | null) => {
-        if (!baseUrl) {
-          return cssText
-        }
-        return cssText.replace(
-          /url\\(\\s*(?:['"]?)([^'")]+)(?:['"]?)\\s*\\)/gi,
-          (match, url) => {
-            if (
-              !url ||
-              url.startsWith('data:') ||
-              url.startsWith('blob:') ||
-              url.startsWith('about:') ||
-              url.startsWith('#')
-            ) {
-              return match
-            }
-            try {
-              const absolute = new URL(url, baseUrl).href
-              return `url("${absolute}")`
-            } catch {
-              return match
-            }
-          },
-        )
-      }
-
-      const inlineCssUrls = async (
-        cssText: string,
-        baseUrl: string | null,
-        inlineAssets: boolean,
-      ) => {
-        const rewritten = rewriteCssUrls(cssText, baseUrl)
-        if (!inlineAssets) {
-          return rewritten
-        }
-        return rewritten
-      }
-
-      const splitSelectors = (selectorText: string) => {
-        const selectors: string[] = []
-        let current = ''
-        let depth = 0
-        let quote: string | null = null
-        for (let i = 0; i < selectorText.length; i += 1) {
-          const char = selectorText[i]
-          if (quote) {
-            current += char
-            if (char === quote && selectorText[i - 1] !== '\\') {
-              quote = null
-            }
-            continue
-          }
-          if (char === '"' || char === "'") {
-            quote = char
-            current += char
-            continue
-          }
-          if (char === '(' || char === '[') {
-            depth += 1
-            current += char
-            continue
-          }
-          if (char === ')' || char === ']') {
-            depth = Math.max(0, depth - 1)
-            current += char
-            continue
-          }
-          if (char === ',' && depth === 0) {
-            const trimmed = current.trim()
-            if (trimmed) {
-              selectors.push(trimmed)
-            }
-            current = ''
-            continue
-          }
-          current += char
-        }
-        const trimmed = current.trim()
-        if (trimmed) {
-          selectors.push(trimmed)
-        }
-        return selectors
-      }
-
-      const normalizeSelector = (selector: string) => {
-        let normalized = selector
-        normalized = normalized.replace(/::?before|::?after/gi, '')
-        normalized = normalized.replace(/::[\\w-]+/g, '')
-        normalized = normalized.replace(
-          /:(hover|active|focus|focus-visible|focus-within|visited|link|checked|disabled|enabled|target)/gi,
-          '',
-        )
-        return normalized.trim()
-      }
-
-      const selectorMatches = (selector: string) => {
-        try {
-          return document.querySelector(selector) !== null
-        } catch {
-          const normalized = normalizeSelector(selector)
-          if (!normalized || normalized === selector) {
-            return false
-          }
-          try {
-            return document.querySelector(normalized) !== null
-          } catch {
-            return false
-          }
-        }
-      }
+export const downloadHtml = (html: string, filename: string) =>
+  downloadBlob(new Blob([html], { type: 'text/html' }), filename)
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'text/css': 'css',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'font/woff2': 'woff2',
+  'font/woff': 'woff',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+}
 
-      const fetchStylesheetText = async (href: string) => {
-        if (useHostFetch && typeof chrome !== 'undefined' && chrome.runtime?.sendMessage) {
-          const response = await new Promise<{ ok: boolean; text?: string; error?: string }>(
-            (resolve) => {
-              let settled = false
-              const timeout = setTimeout(() => {
-                if (settled) {
-                  return
-                }
-                settled = true
-                resolve({ ok: false, error: 'Background fetch timeout' })
-              }, 3000)
-              try {
-                chrome.runtime.sendMessage({ type: 'FETCH_CSS', url: href }, (result) => {
-                  if (settled) {
-                    return
-                  }
-                  settled = true
-                  clearTimeout(timeout)
-                  resolve(
-                    result && typeof result === 'object'
-                      ? (result as { ok: boolean; text?: string; error?: string })
-                      : { ok: false, error: 'Background fetch failed' },
-                  )
-                })
-              } catch (error) {
-                if (settled) {
-                  return
-                }
-                settled = true
-                clearTimeout(timeout)
-                const message = error instanceof Error ? error.message : 'Background fetch error'
-                resolve({ ok: false, error: message })
-              }
-            },
-          )
-          if (!response.ok || !response.text) {
-            return { text: null, error: response.error || 'Background fetch failed' }
-          }
-          return { text: response.text, error: null }
-        }
-        try {
-          const response = await fetch(href, { credentials: 'include' })
-          if (!response.ok) {
-            return { text: null, error: `HTTP ${response.status}` }
-          }
-          const text = await response.text()
-          return { text, error: null }
-        } catch (error) {
-          const message = error instanceof Error ? error.message : 'Unknown fetch error'
-          return { text: null, error: message }
-        }
-      }
+export const decodeDataUrl = async (dataUrl: string) => {
+  const response = await fetch(dataUrl)
+  const contentType = response.headers.get('content-type') ?? 'application/octet-stream'
+  return { contentType, bytes: new Uint8Array(await response.arrayBuffer()) }
+}
 
-      const collectUsedCss = async () => {
-        const usedRules: string[] = []
-        const fontFaces = new Set<string>()
-        const keyframes = new Set<string>()
-        const visitedSheets = new Set<CSSStyleSheet>()
-
-        const parseRulesFromText = (cssText: string) => {
-          const tempDoc = document.implementation.createHTMLDocument('')
-          const styleEl = tempDoc.createElement('style')
-          styleEl.textContent = cssText
-          tempDoc.head.appendChild(styleEl)
-          return styleEl.sheet?.cssRules ?? null
-        }
+const decodeAssets = (assets: CapturedAsset[]) =>
+  Promise.all(
+    assets.map(async ({ url, dataUrl, response }) => ({
+      url,
+      response,
+      ...(await decodeDataUrl(dataUrl)),
+    })),
+  )
+
+const assetFileName = (url: string, contentType: string, usedNames: Set<string>) => {
+  let baseName = 'asset'
+  try {
+    const lastSegment = new URL(url).pathname.split('/').pop() ?? ''
+    baseName = sanitizeFileName(decodeURIComponent(lastSegment)) || baseName
+  } catch {
+    // Keep the generic name for malformed URLs.
+  }
+  const extension = EXTENSIONS_BY_TYPE[contentType.split(';')[0].trim().toLowerCase()]
+  const fileName =
+    extension && !baseName.toLowerCase().endsWith(`.${extension}`)
+      ? `${baseName}.${extension}`
+      : baseName
+  let candidate = fileName
+  for (let counter = 2; usedNames.has(candidate); counter += 1) {
+    candidate = fileName.replace(/(\.[^.]*)?$/, `-${counter}$1`)
+  }
+  usedNames.add(candidate)
+  return candidate
+}
 
-        const collectRules = async (rules: CSSRuleList | null) => {
-          if (!rules) {
-            return []
-          }
-          const collected: string[] = []
-          for (const rule of Array.from(rules)) {
-            if (rule instanceof CSSStyleRule) {
-              const selectors = splitSelectors(rule.selectorText)
-              if (selectors.some(selectorMatches)) {
-                collected.push(rule.cssText)
-              }
-              continue
-            }
-            if (rule instanceof CSSMediaRule) {
-              const nested = await collectRules(rule.cssRules)
-              if (nested.length > 0) {
-                collected.push(`@media ${rule.conditionText}{${nested.join('')}}`)
-              }
-              continue
-            }
-            if (rule instanceof CSSSupportsRule) {
-              if (!CSS.supports(rule.conditionText)) {
-                continue
-              }
-              const nested = await collectRules(rule.cssRules)
-              if (nested.length > 0) {
-                collected.push(`@supports ${rule.conditionText}{${nested.join('')}}`)
-              }
-              continue
-            }
-            if (rule instanceof CSSKeyframesRule) {
-              keyframes.add(rule.cssText)
-              continue
-            }
-            if (rule instanceof CSSFontFaceRule) {
-              fontFaces.add(rule.cssText)
-              continue
-            }
-            if (rule instanceof CSSImportRule) {
-              if (rule.styleSheet && !visitedSheets.has(rule.styleSheet)) {
-                await collectFromStylesheet(rule.styleSheet)
-              }
-              continue
-            }
-            if ('cssRules' in rule) {
-              const nested = await collectRules((rule as CSSGroupingRule).cssRules)
-              if (nested.length > 0) {
-                collected.push(rule.cssText)
-              }
-              continue
-            }
-          }
-          return collected
-        }
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 
-        const collectFromStylesheet = async (sheet: CSSStyleSheet) => {
-          if (visitedSheets.has(sheet)) {
-            return
-          }
-          visitedSheets.add(sheet)
-          try {
-            const nested = await collectRules(sheet.cssRules)
-            usedRules.push(...nested)
-          } catch {
-            if (!sheet.href) {
-              return
-            }
-            warnings.push(`cssRules blocked for stylesheet: ${sheet.href}`)
-            const fallbackResult = await fetchStylesheetText(sheet.href)
-            if (!fallbackResult.text) {
-              warnings.push(
-                `Failed to fetch stylesheet: ${sheet.href} (${fallbackResult.error})`,
-              )
-              return
-            }
-            const updatedCssText = await inlineCssUrls(
-              fallbackResult.text,
-              sheet.href,
-              inlineAssets,
-            )
-            const parsedRules = parseRulesFromText(updatedCssText)
-            const nested = await collectRules(parsedRules)
-            usedRules.push(...nested)
-          }
-        }
+export const rewriteAssetReferences = (text: string, replacements: Map<string, string>) => {
+  if (replacements.size === 0) {
+    return text
+  }
+  const variants = new Map<string, string>()
+  replacements.forEach((replacement, url) => {
+    variants.set(url, replacement)
+    variants.set(escapeAttribute(url), escapeAttribute(replacement))
+  })
+  const alternatives = Array.from(variants.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')
+  const pattern = new RegExp(`(?:${alternatives})(?=["')\\s,]|&quot;|$)`, 'g')
+  return text.replace(pattern, (match) => variants.get(match) ?? match)
+}
 
-        for (const sheet of Array.from(document.styleSheets)) {
-          await collectFromStylesheet(sheet)
-        }
+export const downloadBundle = async (snapshot: CloneResult, filename: string) => {
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder()
+  const usedNames = new Set<string>()
+  const assets = (await decodeAssets(snapshot.assets)).map((asset) => ({
+    ...asset,
+    path: `assets/${assetFileName(asset.url, asset.contentType, usedNames)}`,
+  }))
+
+  const htmlPaths = new Map(assets.map(({ url, path }) => [url, path]))
+  const siblingPaths = new Map(assets.map(({ url, path }) => [url, path.slice('assets/'.length)]))
+  const entries: ZipEntry[] = [
+    { path: 'index.html', data: encoder.encode(rewriteAssetReferences(snapshot.html, htmlPaths)) },
+  ]
+  assets.forEach(({ path, contentType, bytes }) => {
+    const data = contentType.startsWith('text/css')
+      ? encoder.encode(rewriteAssetReferences(decoder.decode(bytes), siblingPaths))
+      : bytes
+    entries.push({ path, data })
+  })
 
-        return [...fontFaces, ...keyframes, ...usedRules].join('\n')
-      }
+  const manifest = {
+    url: snapshot.url,
+    title: snapshot.title,
+    capturedAt: new Date().toISOString(),
+    entry: 'index.html',
+    assets: assets.map(({ url, path, contentType, bytes }) => ({
+      url,
+      path,
+      contentType,
+      size: bytes.length,
+    })),
+    diagnostics: 'diagnostics.json',
+  }
+  entries.push({ path: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) })
+  entries.push({
+    path: 'diagnostics.json',
+    data: new Uint8Array(await createDiagnosticsReport(snapshot).arrayBuffer()),
+  })
+  if (snapshot.redactions.length > 0) {
+    entries.push({
+      path: 'redaction-report.json',
+      data: new Uint8Array(await createRedactionReport(snapshot).arrayBuffer()),
+    })
+  }
 
-      const cleanupTasks: Array<() => void> = []
-      cleanupTasks.push(injectFreezeStyles())
-      pauseMedia()
-      await waitForStableFrames(2)
+  await downloadBlob(await createZip(entries), filename)
+}
 
-      const extractedCss = removeOriginalStyles ? await collectUsedCss() : ''
-      const cloneRoot = document.documentElement.cloneNode(true) as HTMLElement
+export const downloadMhtml = async (snapshot: CloneResult, filename: string) => {
+  const mhtml = serializeMhtml({
+    html: snapshot.html,
+    url: snapshot.url,
+    title: snapshot.title,
+    parts: await decodeAssets(snapshot.assets),
+  })
+  await downloadBlob(new Blob([mhtml], { type: 'multipart/related' }), filename)
+}
 
-      cloneRoot.querySelectorAll('base').forEach((base) => base.remove())
-      cloneRoot.querySelectorAll('plasmo-csui, css-to-tailwind, browser-mcp-container').forEach(
-        (node) => node.remove(),
-      )
-      cloneRoot.querySelectorAll('[data-extension-id]').forEach((node) => node.remove())
+export const downloadWarc = async (snapshot: CloneResult, filename: string) => {
+  const assets = await decodeAssets(snapshot.assets)
+  const warc = await createWarc({
+    filename,
+    url: snapshot.url?.split('#')[0] ?? null,
+    title: snapshot.title,
+    snapshotHtml: snapshot.html,
+    responses: assets.flatMap(({ url, response, bytes }) =>
+      response ? [{ url, ...response, body: bytes }] : [],
+    ),
+    resources: assets.flatMap(({ url, response, contentType, bytes }) =>
+      response ? [] : [{ url, contentType, body: bytes }],
+    ),
+  })
+  await downloadBlob(warc, filename)
+}
 
-      if (removeScripts) {
-        cloneRoot.querySelectorAll('script').forEach((script) => script.remove())
-        cloneRoot
-          .querySelectorAll('link[rel="modulepreload"], link[rel="preload"][as="script"]')
-          .forEach((link) => link.remove())
-      }
+export const downloadSnapshot = async (
+  snapshot: CloneResult,
+  format: DownloadFormat,
+  baseName: string,
+) => {
+  if (format === 'zip') {
+    await downloadBundle(snapshot, `${baseName}.zip`)
+  } else if (format === 'mhtml') {
+    await downloadMhtml(snapshot, `${baseName}.mhtml`)
+  } else if (format === 'warc') {
+    await downloadWarc(snapshot, `${baseName}.warc`)
+  } else {
+    await downloadHtml(snapshot.html, `${baseName}.html`)
+  }
+  // Every snapshot gets a machine-readable report, clean ones too; the ZIP bundle carries its own.
+  if (format !== 'zip') {
+    await downloadBlob(createDiagnosticsReport(snapshot), `${baseName}-diagnostics.json`)
+  }
+  if (format !== 'zip' && snapshot.redactions.length > 0) {
+    await downloadBlob(createRedactionReport(snapshot), `${baseName}-redaction-report.json`)
+  }
+}
 
-      if (removeOriginalStyles) {
-        cloneRoot.querySelectorAll('style').forEach((styleNode) => styleNode.remove())
-        cloneRoot.querySelectorAll('link[rel="stylesheet"]').forEach((link) => link.remove())
-        cloneRoot
-          .querySelectorAll('link[rel="preload"][as="style"]')
-          .forEach((link) => link.remove())
-      }
+export const getActiveTab = async () => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  if (!tab?.id) {
+    throw new Error('No active tab detected.')
+  }
+  return { ...tab, id: tab.id }
+}
 
-      const headTarget = cloneRoot.querySelector('head')
-      if (headTarget && extractedCss) {
-        const styleTag = document.createElement('style')
-        styleTag.setAttribute('data-pc-extracted', 'true')
-        styleTag.textContent = extractedCss
-        headTarget.appendChild(styleTag)
-      }
-      if (headTarget && addCsp) {
-        const meta = document.createElement('meta')
-        meta.setAttribute('http-equiv', 'Content-Security-Policy')
-        meta.setAttribute(
-          'content',
-          "default-src 'self' data:; script-src 'none'; object-src 'none'; base-uri 'none';",
-        )
-        headTarget.appendChild(meta)
+export const CAPTURE_PORT_PREFIX = 'pagesnap-capture:'
+// Built from src/capture.ts as a classic script, so it can be injected with `files`.
+export const CAPTURE_SCRIPT_FILE = 'capture.js'
+
+export const cloneTab = async (
+  tabId: number,
+  options: CloneOptions,
+  { signal, onProgress, pluginFiles = [] }: CaptureControls = {},
+): Promise<CloneResult> => {
+  const startedAt = performance.now()
+  const captureId = crypto.randomUUID()
+  const ports = new Set<chrome.runtime.Port>()
+  const handleConnect = (port: chrome.runtime.Port) => {
+    if (port.name !== `${CAPTURE_PORT_PREFIX}${captureId}`) {
+      return
+    }
+    ports.add(port)
+    port.onDisconnect.addListener(() => ports.delete(port))
+    port.onMessage.addListener((message: { type?: string; progress?: CaptureProgress }) => {
+      if (message?.type === 'PROGRESS' && message.progress) {
+        onProgress?.(message.progress)
       }
+    })
+    if (signal?.aborted) {
+      port.postMessage({ type: 'CANCEL' })
+    }
+  }
+  signal?.throwIfAborted()
+  const endFetches = beginCaptureFetches(captureId, tabId, {
+    timeoutMs: options.fetchTimeoutMs,
+    retries: options.fetchRetries,
+    allowedHosts: options.fetchAllowedHosts,
+  })
+  const handleAbort = () => {
+    endFetches()
+    ports.forEach((port) => port.postMessage({ type: 'CANCEL' }))
+  }
+  chrome.runtime.onConnect.addListener(handleConnect)
+  signal?.addEventListener('abort', handleAbort)
 
-      const doctype = document.doctype
-        ? `<!DOCTYPE ${document.doctype.name}>`
-        : '<!DOCTYPE html>'
-
-      cleanupTasks.forEach((task) => task())
-
-      return { html: `${doctype}\n${cloneRoot.outerHTML}`, warnings }
-    },
-    args: [options],
+  const captureOptions = {
+    ...options,
+    cleanupRules: resolveCleanupRules(options.cleanupPacks, options.cleanupRules),
+  }
+  const injection = chrome.scripting
+    .executeScript({
+      target: { tabId, allFrames: true },
+      files: [CAPTURE_SCRIPT_FILE, ...pluginFiles],
+    })
+    .then(() =>
+      chrome.scripting.executeScript({
+        target: { tabId, allFrames: true },
+        func: (options: CloneOptions, captureId: string) =>
+          (window as CaptureRuntimeWindow).__pagesnapCapture?.run(options, captureId) ?? null,
+        args: [captureOptions, captureId],
+      }),
+    )
+  // A page stuck in a dialog or a long synchronous step never answers CANCEL, so an abort rejects
+  // right away while the listeners stay up to cancel the page once it does run again.
+  const cancelled = new Promise<never>((_, reject) => {
+    signal?.addEventListener('abort', () => reject(new Error('Capture cancelled.')), {
+      once: true,
+    })
   })
+  cancelled.catch(() => undefined)
+  injection
+    .catch(() => undefined)
+    .finally(() => {
+      chrome.runtime.onConnect.removeListener(handleConnect)
+      signal?.removeEventListener('abort', handleAbort)
+      ports.forEach((port) => port.disconnect())
+      endFetches()
+    })
+  const injectionResults = await Promise.race([injection, cancelled])
+  if (signal?.aborted) {
+    throw new Error('Capture cancelled.')
+  }
 
-  if (!result) {
+  const frameResults = new Map<number, SerializedResult>()
+  injectionResults.forEach(({ frameId, result }) => {
+    if (result) {
+      frameResults.set(frameId, result)
+    }
+  })
+  const root = frameResults.get(0)
+  if (!root) {
     throw new Error('Failed to serialize the page.')
   }
-  const payload = typeof result === 'string' ? { html: result, warnings: [] } : result
-  return { html: payload.html, warnings: payload.warnings, title: tab.title ?? null }
+  const diagnostics: Diagnostic[] = []
+  const html = assembleFrameHtml(root, frameResults, diagnostics, new Set([0]), startedAt)
+  const assets = new Map<string, CapturedAsset>()
+  frameResults.forEach((frame) => frame.assets.forEach((asset) => assets.set(asset.url, asset)))
+  return {
+    html,
+    diagnostics,
+    title: root.title || null,
+    url: root.url,
+    assets: Array.from(assets.values()),
+    redactions: Array.from(frameResults.values()).flatMap((frame) => frame.redactions),
+  }
 }
@@ -0,0 +1,137 @@
+export type DiagnosticSeverity = 'info' | 'warning' | 'error'
+
+export type DiagnosticStage =
+  | 'prepare'
+  | 'styles'
+  | 'assets'
+  | 'media'
+  | 'cleanup'
+  | 'redaction'
+  | 'frames'
+  | 'screenshot'
+  | 'capture'
+
+export type DiagnosticCode =
+  | 'LAZY_SCROLL_LIMIT'
+  | 'STYLESHEET_BLOCKED'
+  | 'STYLESHEET_FETCH_FAILED'
+  | 'FETCH_FAILED'
+  | 'RESPONSE_NOT_RECORDED'
+  | 'VIDEO_FRAME_BLOCKED'
+  | 'CANVAS_TAINTED'
+  | 'INVALID_SELECTOR'
+  | 'INVALID_PATTERN'
+  | 'ELEMENT_CLEANED'
+  | 'FRAME_NOT_CAPTURED'
+  | 'SCREENSHOT_TRUNCATED'
+  | 'SCREENSHOT_NOT_EMBEDDED'
+  | 'CAPTURE_FAILED'
+  | 'UNCLASSIFIED'
+
+// `elapsedMs` is measured from the start of the capture step that reported the diagnostic;
+// `durationMs` is the time spent on the failing operation itself, when known.
+export type Diagnostic = {
+  code: DiagnosticCode
+  severity: DiagnosticSeverity
+  stage: DiagnosticStage
+  message: string
+  url: string | null
+  elapsedMs: number
+  durationMs: number | null
+}
+
+export type DiagnosticGrouping = 'stage' | 'code'
+
+export const SEVERITY_RANK: Record<DiagnosticSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+}
+
+export const DIAGNOSTIC_STAGE_LABELS: Record<DiagnosticStage, string> = {
+  prepare: 'Page preparation',
+  styles: 'Stylesheets',
+  assets: 'Assets',
+  media: 'Canvas and video',
+  cleanup: 'Cleanup rules',
+  redaction: 'Redaction',
+  frames: 'Frames',
+  screenshot: 'Screenshot',
+  capture: 'Capture',
+}
+
+export const createDiagnostic = ({
+  url = null,
+  elapsedMs = 0,
+  durationMs = null,
+  ...fields
+}: Pick<Diagnostic, 'code' | 'severity' | 'stage' | 'message'> &
+  Partial<Pick<Diagnostic, 'url' | 'elapsedMs' | 'durationMs'>>): Diagnostic => ({
+  ...fields,
+  url,
+  elapsedMs,
+  durationMs,
+})
+
+// Library entries saved before diagnostics were structured only kept free-text warnings.
+export const normalizeDiagnostics = (value: unknown): Diagnostic[] =>
+  Array.isArray(value)
+    ? value.map((item) =>
+        typeof item === 'string'
+          ? createDiagnostic({
+              code: 'UNCLASSIFIED',
+              severity: 'warning',
+              stage: 'capture',
+              message: item,
+            })
+          : (item as Diagnostic),
+      )
+    : []
+
+export const countIssues = (diagnostics: Diagnostic[]) =>
+  diagnostics.filter(({ severity }) => severity !== 'info').length
+
+export const filterDiagnostics = (diagnostics: Diagnostic[], minSeverity: DiagnosticSeverity) =>
+  diagnostics.filter(({ severity }) => SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity])
+
+export const groupDiagnostics = (diagnostics: Diagnostic[], grouping: DiagnosticGrouping) => {
+  const groups = new Map<string, Diagnostic[]>()
+  diagnostics.forEach((diagnostic) => {
+    const key = grouping === 'stage' ? diagnostic.stage : diagnostic.code
+    groups.set(key, [...(groups.get(key) ?? []), diagnostic])
+  })
+  return Array.from(groups, ([key, items]) => ({
+    key,
+    label: grouping === 'stage' ? DIAGNOSTIC_STAGE_LABELS[key as DiagnosticStage] : key,
+    items: [...items].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]),
+  }))
+}
+
+export const summarizeDiagnostics = (diagnostics: Diagnostic[]) => {
+  const severities: Record<DiagnosticSeverity, number> = { info: 0, warning: 0, error: 0 }
+  const codes: Partial<Record<DiagnosticCode, number>> = {}
+  diagnostics.forEach(({ severity, code }) => {
+    severities[severity] += 1
+    codes[code] = (codes[code] ?? 0) + 1
+  })
+  return { ...severities, codes }
+}
+
+export const createDiagnosticsReport = ({
+  url,
+  title,
+  diagnostics,
+}: {
+  url: string | null
+  title: string | null
+  diagnostics: Diagnostic[]
+}) => {
+  const report = {
+    url,
+    title,
+    generatedAt: new Date().toISOString(),
+    summary: summarizeDiagnostics(diagnostics),
+    diagnostics,
+  }
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+}
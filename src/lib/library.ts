@@ -0,0 +1,116 @@
+import type { CloneOptions, CloneResult } from '@/lib/cloner'
+import { normalizeDiagnostics, type Diagnostic } from '@/lib/diagnostics'
+
+export type LibraryEntry = {
+  id: string
+  url: string | null
+  title: string | null
+  capturedAt: string
+  options: CloneOptions
+  diagnostics: Diagnostic[]
+  size: number
+}
+
+type LibraryContent = {
+  id: string
+  html: string
+}
+
+const DB_NAME = 'pagesnap-library'
+const DB_VERSION = 1
+const ENTRY_STORE = 'entries'
+const CONTENT_STORE = 'contents'
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Library request failed.'))
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('Library update failed.'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('Library update aborted.'))
+  })
+
+const openLibrary = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore(ENTRY_STORE, { keyPath: 'id' }).createIndex('capturedAt', 'capturedAt')
+      db.createObjectStore(CONTENT_STORE, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Could not open the library.'))
+  })
+
+const withLibrary = async <T>(run: (db: IDBDatabase) => Promise<T>) => {
+  const db = await openLibrary()
+  try {
+    return await run(db)
+  } finally {
+    db.close()
+  }
+}
+
+export const saveToLibrary = (snapshot: CloneResult, options: CloneOptions) =>
+  withLibrary(async (db) => {
+    const entry: LibraryEntry = {
+      id: crypto.randomUUID(),
+      url: snapshot.url,
+      title: snapshot.title,
+      capturedAt: new Date().toISOString(),
+      options,
+      diagnostics: snapshot.diagnostics,
+      size: new Blob([snapshot.html]).size,
+    }
+    const content: LibraryContent = { id: entry.id, html: snapshot.html }
+    const transaction = db.transaction([ENTRY_STORE, CONTENT_STORE], 'readwrite')
+    transaction.objectStore(ENTRY_STORE).put(entry)
+    transaction.objectStore(CONTENT_STORE).put(content)
+    await transactionDone(transaction)
+    return entry
+  })
+
+export const listLibrary = () =>
+  withLibrary(async (db) => {
+    const transaction = db.transaction(ENTRY_STORE, 'readonly')
+    const index = transaction.objectStore(ENTRY_STORE).index('capturedAt')
+    const entries = await requestResult(
+      index.getAll() as IDBRequest<Array<LibraryEntry & { warnings?: string[] }>>,
+    )
+    return entries.reverse().map(({ warnings, ...entry }) => ({
+      ...entry,
+      diagnostics: normalizeDiagnostics(entry.diagnostics ?? warnings),
+    }))
+  })
+
+export const loadLibraryHtml = (id: string) =>
+  withLibrary(async (db) => {
+    const transaction = db.transaction(CONTENT_STORE, 'readonly')
+    const content = await requestResult(
+      transaction.objectStore(CONTENT_STORE).get(id) as IDBRequest<LibraryContent | undefined>,
+    )
+    if (!content) {
+      throw new Error('Snapshot not found in the library.')
+    }
+    return content.html
+  })
+
+export const deleteFromLibrary = (id: string) =>
+  withLibrary(async (db) => {
+    const transaction = db.transaction([ENTRY_STORE, CONTENT_STORE], 'readwrite')
+    transaction.objectStore(ENTRY_STORE).delete(id)
+    transaction.objectStore(CONTENT_STORE).delete(id)
+    await transactionDone(transaction)
+  })
+
+export const getLibraryUsage = async () => {
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate()
+  return { usage, quota }
+}
+
+export const openLibraryPage = () =>
+  chrome.tabs.create({ url: chrome.runtime.getURL('library.html') })
@@ -0,0 +1,106 @@
+export type MhtmlPart = {
+  url: string
+  contentType: string
+  bytes: Uint8Array
+}
+
+export type MhtmlDocument = {
+  html: string
+  url: string | null
+  title: string | null
+  parts: MhtmlPart[]
+  capturedAt?: Date
+}
+
+const LINE_LENGTH = 76
+
+const toHex = (byte: number) => `=${byte.toString(16).toUpperCase().padStart(2, '0')}`
+
+export const encodeQuotedPrintable = (bytes: Uint8Array) => {
+  const lines: string[] = []
+  let line = ''
+
+  const endLine = () => {
+    const last = line.charCodeAt(line.length - 1)
+    if (last === 0x20 || last === 0x09) {
+      line = `${line.slice(0, -1)}${toHex(last)}`
+    }
+    lines.push(line)
+    line = ''
+  }
+
+  for (let i = 0; i < bytes.length; i += 1) {
+    const byte = bytes[i]
+    if (byte === 0x0d && bytes[i + 1] === 0x0a) {
+      continue
+    }
+    if (byte === 0x0a) {
+      endLine()
+      continue
+    }
+    const literal = (byte >= 33 && byte <= 126 && byte !== 61) || byte === 0x20 || byte === 0x09
+    const token = literal ? String.fromCharCode(byte) : toHex(byte)
+    if (line.length + token.length > LINE_LENGTH - 1) {
+      lines.push(`${line}=`)
+      line = ''
+    }
+    line += token
+  }
+  endLine()
+
+  return lines.join('\r\n')
+}
+
+export const encodeBase64 = (bytes: Uint8Array) => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return (btoa(binary).match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g')) ?? []).join('\r\n')
+}
+
+const encodeHeaderValue = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?utf-8?B?${encodeBase64(new TextEncoder().encode(value)).replace(/\r\n/g, '')}?=`
+
+const isTextType = (contentType: string) =>
+  /^(text\/|application\/(javascript|json|xml)|image\/svg\+xml)/i.test(contentType)
+
+export const serializeMhtml = ({ html, url, title, parts, capturedAt }: MhtmlDocument) => {
+  const boundary = `----MultipartBoundary--${crypto.randomUUID()}----`
+  const location = url ?? 'about:blank'
+  const lines = [
+    'From: <Saved by PageSnap>',
+    `Snapshot-Content-Location: ${location}`,
+    `Subject: ${encodeHeaderValue(title ?? location)}`,
+    `Date: ${(capturedAt ?? new Date()).toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/related;',
+    '\ttype="text/html";',
+    `\tboundary="${boundary}"`,
+    '',
+    '',
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    `Content-Location: ${location}`,
+    '',
+    encodeQuotedPrintable(new TextEncoder().encode(html)),
+  ]
+
+  parts.forEach((part) => {
+    const text = isTextType(part.contentType)
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${part.contentType}`,
+      `Content-Transfer-Encoding: ${text ? 'quoted-printable' : 'base64'}`,
+      `Content-Location: ${part.url}`,
+      '',
+      text ? encodeQuotedPrintable(part.bytes) : encodeBase64(part.bytes),
+    )
+  })
+
+  lines.push(`--${boundary}--`, '')
+  return lines.join('\r\n')
+}
@@ -0,0 +1,131 @@
+import { getActiveTab } from '@/lib/cloner'
+
+export const startElementPicker = async (tabId?: number) => {
+  const targetTabId = tabId ?? (await getActiveTab()).id
+
+  await chrome.scripting.executeScript({
+    target: { tabId: targetTabId },
+    func: () => {
+      document.querySelectorAll('[data-pc-picker]').forEach((node) => node.remove())
+
+      const describeElement = (element: Element) => {
+        const id = element.id ? `#${element.id}` : ''
+        const className =
+          typeof element.className === 'string' && element.className.trim()
+            ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+            : ''
+        return `${element.tagName.toLowerCase()}${id}${className}`
+      }
+
+      const overlay = document.createElement('div')
+      overlay.setAttribute('data-pc-picker', 'true')
+      overlay.style.cssText =
+        'position:fixed;z-index:2147483647;display:none;pointer-events:none;box-sizing:border-box;' +
+        'border:2px solid #2563eb;border-radius:4px;background:rgba(37,99,235,0.12);'
+      const label = document.createElement('div')
+      label.style.cssText =
+        'position:absolute;left:-2px;bottom:100%;margin-bottom:4px;padding:2px 6px;' +
+        'border-radius:4px;background:#2563eb;color:#fff;font:11px/16px system-ui,sans-serif;' +
+        'white-space:nowrap;'
+      overlay.appendChild(label)
+      document.documentElement.appendChild(overlay)
+
+      let current: Element | null = null
+
+      const handleMove = (event: MouseEvent) => {
+        const target = document.elementFromPoint(event.clientX, event.clientY)
+        if (!target || target === document.documentElement) {
+          return
+        }
+        current = target
+        const rect = target.getBoundingClientRect()
+        overlay.style.display = 'block'
+        overlay.style.left = `${rect.left}px`
+        overlay.style.top = `${rect.top}px`
+        overlay.style.width = `${rect.width}px`
+        overlay.style.height = `${rect.height}px`
+        label.textContent = describeElement(target)
+      }
+
+      const swallow = (event: Event) => {
+        event.preventDefault()
+        event.stopPropagation()
+      }
+
+      const stop = () => {
+        document.removeEventListener('mousemove', handleMove, true)
+        document.removeEventListener('mousedown', swallow, true)
+        document.removeEventListener('mouseup', swallow, true)
+        document.removeEventListener('click', handleClick, true)
+        document.removeEventListener('keydown', handleKey, true)
+        overlay.remove()
+      }
+
+      const handleClick = (event: MouseEvent) => {
+        swallow(event)
+        if (!current) {
+          return
+        }
+        document
+          .querySelectorAll('[data-pc-picked]')
+          .forEach((node) => node.removeAttribute('data-pc-picked'))
+        current.setAttribute('data-pc-picked', 'true')
+        stop()
+        chrome.runtime.sendMessage({ type: 'PICKER_SELECTED' }).catch(() => {
+          // The popup is reopened on a best-effort basis.
+        })
+      }
+
+      const handleKey = (event: KeyboardEvent) => {
+        if (event.key === 'Escape') {
+          swallow(event)
+          stop()
+          chrome.runtime.sendMessage({ type: 'PICKER_CANCELLED' }).catch(() => {
+            // Nothing is waiting on a picker started from the popup.
+          })
+        }
+      }
+
+      document.addEventListener('mousemove', handleMove, true)
+      document.addEventListener('mousedown', swallow, true)
+      document.addEventListener('mouseup', swallow, true)
+      document.addEventListener('click', handleClick, true)
+      document.addEventListener('keydown', handleKey, true)
+    },
+  })
+}
+
+export const getPickedElement = async (tabId?: number) => {
+  const targetTabId = tabId ?? (await getActiveTab()).id
+
+  const [{ result }] = await chrome.scripting.executeScript({
+    target: { tabId: targetTabId },
+    func: () => {
+      const picked = document.querySelector('[data-pc-picked]')
+      if (!picked) {
+        return null
+      }
+      const id = picked.id ? `#${picked.id}` : ''
+      const className =
+        typeof picked.className === 'string' && picked.className.trim()
+          ? `.${picked.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+          : ''
+      return `${picked.tagName.toLowerCase()}${id}${className}`
+    },
+  })
+
+  return result ?? null
+}
+
+export const clearPickedElement = async (tabId?: number) => {
+  const targetTabId = tabId ?? (await getActiveTab()).id
+
+  await chrome.scripting.executeScript({
+    target: { tabId: targetTabId },
+    func: () => {
+      document
+        .querySelectorAll('[data-pc-picked]')
+        .forEach((node) => node.removeAttribute('data-pc-picked'))
+    },
+  })
+}
@@ -0,0 +1,51 @@
+import type { CaptureStage, CloneOptions } from '@/lib/cloner'
+import type { DiagnosticCode, DiagnosticSeverity, DiagnosticStage } from '@/lib/diagnostics'
+
+// A capture runs each hook across every plugin, in list order, before moving to the next hook:
+// beforeClone -> transformClone -> transformCss -> serialize.
+//
+// Plugins run inside the captured page, in the capture script built from src/capture.ts. The
+// built-in stages live in `runCapture`; other plugins are passed to `runCapture` directly or, from
+// the extension, registered by a script listed in `cloneTab`'s `pluginFiles`.
+export type CaptureContext = {
+  options: CloneOptions
+  // The live element being captured: the picked element or `document.documentElement`.
+  source: Element
+  pickedElement: Element | null
+  report: (
+    code: DiagnosticCode,
+    severity: DiagnosticSeverity,
+    stage: DiagnosticStage,
+    message: string,
+    details?: { url?: string | null; startedAt?: number },
+  ) => void
+  progress: (
+    stage: CaptureStage,
+    message: string,
+    completed?: number | null,
+    total?: number | null,
+  ) => void
+  // Registers a task that undoes a change to the live page once the capture settles.
+  addCleanup: (task: () => void) => void
+  throwIfCancelled: () => void
+}
+
+export type CloneContext = CaptureContext & {
+  // The cloned root, replaced when a transformClone hook returns a new element.
+  clone: HTMLElement
+  // The clone plus the content of every declarative shadow root inside it.
+  scopes: () => ParentNode[]
+}
+
+export type CapturePlugin = {
+  name: string
+  // Prepares the live page before it is cloned. Changes must be undone through `addCleanup`.
+  beforeClone?: (context: CaptureContext) => void | Promise<void>
+  // Edits the clone. Hooks that pair live and cloned nodes by position have to run before hooks
+  // that add or remove nodes.
+  transformClone?: (context: CloneContext) => void | HTMLElement | Promise<void | HTMLElement>
+  // Threads the text of the extracted `<style data-pc-extracted>` sheet, starting empty.
+  transformCss?: (cssText: string, context: CloneContext) => string | Promise<string>
+  // Last edits to the finished clone before it is written out as HTML.
+  serialize?: (context: CloneContext) => void | Promise<void>
+}
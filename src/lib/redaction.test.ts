@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+
+import type { RedactionKind } from '@/lib/cloner'
+import { createDiagnostic } from '@/lib/diagnostics'
+import { createRedactor, hasRedaction, passesLuhn, type RedactorOptions } from '@/lib/redaction'
+import { DEFAULT_CLONE_OPTIONS } from '@/lib/settings'
+
+const createTestRedactor = (patch: Partial<RedactorOptions> = {}) => {
+  const recorded: Array<[RedactionKind, string]> = []
+  const invalid: string[] = []
+  const redactor = createRedactor({
+    redactEmails: false,
+    redactPhoneNumbers: false,
+    redactCardNumbers: false,
+    redactPatterns: [],
+    cookieValues: [],
+    record: (kind, target) => recorded.push([kind, target]),
+    onInvalidPattern: (source) => invalid.push(source),
+    ...patch,
+  })
+  return { ...redactor, recorded, invalid }
+}
+
+describe('hasRedaction', () => {
+  it('is on when any redaction option is set', () => {
+    expect(hasRedaction(DEFAULT_CLONE_OPTIONS)).toBe(false)
+    expect(hasRedaction({ ...DEFAULT_CLONE_OPTIONS, redactSelectors: ['.account'] })).toBe(true)
+    expect(hasRedaction({ ...DEFAULT_CLONE_OPTIONS, stripUrlTokens: true })).toBe(true)
+  })
+})
+
+describe('passesLuhn', () => {
+  it('accepts valid card numbers only', () => {
+    expect(passesLuhn('4111111111111111')).toBe(true)
+    expect(passesLuhn('4111111111111112')).toBe(false)
+  })
+})
+
+describe('redactText', () => {
+  it('masks emails but keeps their shape', () => {
+    const { redactText, recorded } = createTestRedactor({ redactEmails: true })
+    expect(redactText('Mail jo@example.com now', 'p')).toBe('Mail ••@•••••••.••• now')
+    expect(recorded).toEqual([['email', 'p']])
+  })
+
+  it('masks card numbers that pass the Luhn check', () => {
+    const { redactText } = createTestRedactor({ redactCardNumbers: true })
+    expect(redactText('4111 1111 1111 1111', 'p')).toBe('•••• •••• •••• ••••')
+    expect(redactText('4111 1111 1111 1112', 'p')).toBe('4111 1111 1111 1112')
+  })
+
+  it('masks phone numbers with 9 to 15 digits', () => {
+    const { redactText } = createTestRedactor({ redactPhoneNumbers: true })
+    expect(redactText('Call +1 415-555-0132', 'p')).toBe('Call +• •••-•••-••••')
+    expect(redactText('Room 12-34', 'p')).toBe('Room 12-34')
+  })
+
+  it('applies custom patterns and reports invalid ones', () => {
+    const { redactText, shouldRedactText, invalid } = createTestRedactor({
+      redactPatterns: ['ORD-\\d+', '('],
+    })
+    expect(shouldRedactText).toBe(true)
+    expect(redactText('Order ORD-123', 'p')).toBe('Order •••-•••')
+    expect(invalid).toEqual(['('])
+  })
+})
+
+describe('redactUrl', () => {
+  it('strips sensitive query and hash parameters', () => {
+    const { redactUrl, recorded } = createTestRedactor()
+    expect(redactUrl('https://example.com/a?token=abc&page=2#access_token=x', 'a [href]')).toBe(
+      'https://example.com/a?page=2',
+    )
+    expect(recorded).toEqual([['url', 'a [href]']])
+  })
+
+  it('removes session ids from paths and masks cookie values', () => {
+    const { redactUrl } = createTestRedactor({ cookieValues: ['s3cr3tvalue'] })
+    expect(redactUrl('https://example.com/a;jsessionid=123/b', 'a')).toBe(
+      'https://example.com/a/b',
+    )
+    expect(redactUrl('https://example.com/u/s3cr3tvalue', 'a')).toBe(
+      'https://example.com/u/redacted',
+    )
+  })
+
+  it('leaves clean and non-http URLs alone', () => {
+    const { redactUrl, recorded } = createTestRedactor()
+    expect(redactUrl('https://example.com/a?page=2', 'a')).toBe('https://example.com/a?page=2')
+    expect(redactUrl('mailto:jo@example.com?token=1', 'a')).toBe('mailto:jo@example.com?token=1')
+    expect(recorded).toEqual([])
+  })
+
+  it('strips tokens from diagnostic URLs without recording them', () => {
+    const { redactDiagnostic, recorded } = createTestRedactor({ cookieValues: ['s3cr3tvalue'] })
+    const diagnostic = createDiagnostic({
+      code: 'FETCH_FAILED',
+      severity: 'warning',
+      stage: 'assets',
+      message: 'Failed to fetch https://cdn.test/a.png?sig=1&w=2 (HTTP 403)',
+      url: 'https://cdn.test/u/s3cr3tvalue?token=abc',
+    })
+    expect(redactDiagnostic(diagnostic)).toEqual({
+      ...diagnostic,
+      message: 'Failed to fetch https://cdn.test/a.png?w=2 (HTTP 403)',
+      url: 'https://cdn.test/u/redacted',
+    })
+    expect(recorded).toEqual([])
+  })
+
+  it('rewrites url() references in CSS', () => {
+    const { redactCssUrls } = createTestRedactor()
+    expect(redactCssUrls('a{background:url("https://cdn.test/a.png?sig=1")}', 'style')).toBe(
+      'a{background:url("https://cdn.test/a.png")}',
+    )
+  })
+})
@@ -0,0 +1,219 @@
+import type { CloneOptions, CloneResult, RedactionKind } from '@/lib/cloner'
+import type { Diagnostic } from '@/lib/diagnostics'
+
+export const REDACTION_KIND_LABELS: Record<RedactionKind, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  card: 'Card numbers',
+  pattern: 'Custom patterns',
+  element: 'Blanked elements',
+  'data-attribute': 'Data attributes',
+  url: 'URL tokens',
+}
+
+export const parseRedactionLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+export const formatRedactionLines = (lines: string[]) => lines.join('\n')
+
+export const summarizeRedactions = (snapshot: Pick<CloneResult, 'redactions'>) => {
+  const totals = new Map<RedactionKind, number>()
+  snapshot.redactions.forEach(({ kind, count }) =>
+    totals.set(kind, (totals.get(kind) ?? 0) + count),
+  )
+  return Array.from(totals, ([kind, count]) => ({
+    kind,
+    label: REDACTION_KIND_LABELS[kind],
+    count,
+  }))
+}
+
+export const createRedactionReport = (
+  snapshot: Pick<CloneResult, 'url' | 'title' | 'redactions'>,
+) => {
+  const report = {
+    url: snapshot.url,
+    title: snapshot.title,
+    generatedAt: new Date().toISOString(),
+    summary: summarizeRedactions(snapshot),
+    changes: snapshot.redactions,
+  }
+  return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+}
+
+// True when any option would change what the snapshot shows, so nothing unredacted (the raw page
+// response, a screenshot) may be stored next to it.
+export const hasRedaction = (
+  options: Pick<
+    CloneOptions,
+    | 'redactEmails'
+    | 'redactPhoneNumbers'
+    | 'redactCardNumbers'
+    | 'redactPatterns'
+    | 'redactSelectors'
+    | 'stripDataAttributes'
+    | 'stripUrlTokens'
+  >,
+) =>
+  options.redactEmails ||
+  options.redactPhoneNumbers ||
+  options.redactCardNumbers ||
+  options.redactPatterns.length > 0 ||
+  options.redactSelectors.length > 0 ||
+  options.stripDataAttributes ||
+  options.stripUrlTokens
+
+export type RedactorOptions = Pick<
+  CloneOptions,
+  'redactEmails' | 'redactPhoneNumbers' | 'redactCardNumbers' | 'redactPatterns'
+> & {
+  // Cookie values of the captured page, masked wherever they appear in a URL.
+  cookieValues: string[]
+  record: (kind: RedactionKind, target: string) => void
+  onInvalidPattern: (source: string) => void
+}
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g
+const PHONE_PATTERN =
+  /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]\d{2,5}){1,4}/g
+const SENSITIVE_PARAM_PATTERN =
+  /^(?:access_?token|id_?token|refresh_?token|token|auth|authorization|code|key|api_?key|secret|password|pwd|signature|sig|session|session_?id|sid|jsessionid|phpsessid|aspsessionid|cookie|x-amz-[a-z-]+)$/i
+const SESSION_PATH_PATTERN = /;[a-z]*sessionid=[^/?#]*/gi
+const TEXT_URL_PATTERN = /https?:\/\/[^\s"'<>()]+/g
+
+export const passesLuhn = (digits: string) => {
+  let sum = 0
+  for (let i = 0; i < digits.length; i += 1) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+export const createRedactor = ({
+  redactEmails,
+  redactPhoneNumbers,
+  redactCardNumbers,
+  redactPatterns,
+  cookieValues,
+  record,
+  onInvalidPattern,
+}: RedactorOptions) => {
+  const customPatterns = redactPatterns.flatMap((source) => {
+    try {
+      return [new RegExp(source, 'g')]
+    } catch {
+      onInvalidPattern(source)
+      return []
+    }
+  })
+  const shouldRedactText =
+    redactEmails || redactPhoneNumbers || redactCardNumbers || customPatterns.length > 0
+
+  // Masks letters and digits but keeps separators, so the redacted text keeps its shape.
+  const redactText = (value: string, target: string) => {
+    const replace = (
+      text: string,
+      pattern: RegExp,
+      kind: RedactionKind,
+      accept: (match: string) => boolean = () => true,
+    ) =>
+      text.replace(pattern, (match) => {
+        if (!match || !accept(match)) {
+          return match
+        }
+        record(kind, target)
+        return match.replace(/[\p{L}\p{N}]/gu, '•')
+      })
+
+    let next = value
+    if (redactEmails) {
+      next = replace(next, EMAIL_PATTERN, 'email')
+    }
+    if (redactCardNumbers) {
+      next = replace(next, CARD_PATTERN, 'card', (match) => passesLuhn(match.replace(/\D/g, '')))
+    }
+    if (redactPhoneNumbers) {
+      next = replace(next, PHONE_PATTERN, 'phone', (match) => {
+        const digits = match.replace(/\D/g, '').length
+        return digits >= 9 && digits <= 15
+      })
+    }
+    customPatterns.forEach((pattern) => {
+      next = replace(next, pattern, 'pattern')
+    })
+    return next
+  }
+
+  const stripUrl = (value: string) => {
+    let url: URL
+    try {
+      url = new URL(value)
+    } catch {
+      return value
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return value
+    }
+    const stripParams = (params: URLSearchParams) => {
+      const names = Array.from(new Set(params.keys())).filter((name) =>
+        SENSITIVE_PARAM_PATTERN.test(name),
+      )
+      names.forEach((name) => params.delete(name))
+      return names.length > 0
+    }
+    let changed = stripParams(url.searchParams)
+    if (url.hash.includes('=')) {
+      const hashParams = new URLSearchParams(url.hash.slice(1))
+      if (stripParams(hashParams)) {
+        url.hash = hashParams.toString()
+        changed = true
+      }
+    }
+    const pathname = url.pathname.replace(SESSION_PATH_PATTERN, '')
+    if (pathname !== url.pathname) {
+      url.pathname = pathname
+      changed = true
+    }
+    let next = changed ? url.href : value
+    cookieValues.forEach((cookieValue) => {
+      if (next.includes(cookieValue)) {
+        next = next.split(cookieValue).join('redacted')
+      }
+    })
+    return next
+  }
+
+  const redactUrl = (value: string, target: string) => {
+    const next = stripUrl(value)
+    if (next !== value) {
+      record('url', target)
+    }
+    return next
+  }
+
+  // Diagnostics are not snapshot content, so their URLs are stripped without being recorded.
+  const redactDiagnostic = (diagnostic: Diagnostic): Diagnostic => ({
+    ...diagnostic,
+    message: diagnostic.message.replace(TEXT_URL_PATTERN, stripUrl),
+    url: diagnostic.url === null ? null : stripUrl(diagnostic.url),
+  })
+
+  const redactCssUrls = (cssText: string, target: string) =>
+    cssText.replace(/url\((["']?)([^"')]+)\1\)/g, (match, quote: string, url: string) => {
+      const redacted = redactUrl(url, target)
+      return redacted === url ? match : `url(${quote}${redacted}${quote})`
+    })
+
+  return { shouldRedactText, redactText, redactUrl, redactCssUrls, redactDiagnostic }
+}
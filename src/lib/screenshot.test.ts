@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+
+import { embedReferenceOverlay, type FullPageScreenshot } from '@/lib/screenshot'
+
+const screenshot: FullPageScreenshot = {
+  blob: new Blob(['png'], { type: 'image/png' }),
+  width: 800,
+  height: 1200,
+  cssWidth: 400,
+  cssHeight: 600,
+  diagnostics: [],
+}
+
+const CSP_META = '<meta http-equiv="Content-Security-Policy" content="default-src data:">'
+
+describe('embedReferenceOverlay', () => {
+  it('puts the style ahead of the CSP meta and the overlay at the end of the body', async () => {
+    const head = `<head lang="en"><title>Page</title>${CSP_META}</head>`
+    const html = await embedReferenceOverlay(
+      `<!DOCTYPE html><html>${head}<body><p>Text</p></body></html>`,
+      screenshot,
+    )
+    expect(html.indexOf('<style data-pc-reference-style')).toBeGreaterThan(
+      html.indexOf('<head lang="en">'),
+    )
+    expect(html.indexOf('<style data-pc-reference-style')).toBeLessThan(html.indexOf(CSP_META))
+    expect(html).toMatch(/<p>Text<\/p><div data-pc-reference="true">[\s\S]*<\/div><\/body>/)
+    expect(html).toContain('src="data:image/png;base64,')
+  })
+
+  it('still embeds the overlay without a head or body', async () => {
+    const html = await embedReferenceOverlay('<p>Text</p>', screenshot)
+    expect(html.startsWith('<style data-pc-reference-style')).toBe(true)
+    expect(html).toContain('<div data-pc-reference="true">')
+  })
+})
@@ -0,0 +1,168 @@
+import { escapeAttribute, getActiveTab, readBlobAsDataUrl } from '@/lib/cloner'
+import { createDiagnostic, type Diagnostic } from '@/lib/diagnostics'
+
+export type FullPageScreenshot = {
+  blob: Blob
+  width: number
+  height: number
+  cssWidth: number
+  cssHeight: number
+  diagnostics: Diagnostic[]
+}
+
+const MAX_CANVAS_HEIGHT = 32767
+// captureVisibleTab is limited to two calls per second.
+const CAPTURE_INTERVAL_MS = 550
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+const scrollTab = async (tabId: number, top: number, hideFixed: boolean) => {
+  const [{ result }] = await chrome.scripting.executeScript({
+    target: { tabId },
+    args: [top, hideFixed],
+    func: async (top: number, hideFixed: boolean) => {
+      if (hideFixed && !document.querySelector('style[data-pc-screenshot]')) {
+        const style = document.createElement('style')
+        style.setAttribute('data-pc-screenshot', 'true')
+        style.textContent = '[data-pc-screenshot-hidden] { visibility: hidden !important; }'
+        document.documentElement.appendChild(style)
+        document.querySelectorAll('body *').forEach((element) => {
+          const { position } = getComputedStyle(element)
+          if (position === 'fixed' || position === 'sticky') {
+            element.setAttribute('data-pc-screenshot-hidden', 'true')
+          }
+        })
+      }
+      window.scrollTo({ left: 0, top, behavior: 'instant' })
+      for (let i = 0; i < 2; i += 1) {
+        await new Promise<void>((resolve) => {
+          requestAnimationFrame(() => resolve())
+        })
+      }
+      return window.scrollY
+    },
+  })
+  return result ?? top
+}
+
+const restoreTab = (tabId: number, left: number, top: number) =>
+  chrome.scripting.executeScript({
+    target: { tabId },
+    args: [left, top],
+    func: (left: number, top: number) => {
+      document.querySelectorAll('style[data-pc-screenshot]').forEach((node) => node.remove())
+      document
+        .querySelectorAll('[data-pc-screenshot-hidden]')
+        .forEach((node) => node.removeAttribute('data-pc-screenshot-hidden'))
+      window.scrollTo({ left, top, behavior: 'instant' })
+    },
+  })
+
+const loadBitmap = async (dataUrl: string) => createImageBitmap(await (await fetch(dataUrl)).blob())
+
+export const captureFullPageScreenshot = async (tabId?: number): Promise<FullPageScreenshot> => {
+  const startedAt = performance.now()
+  const tab =
+    tabId === undefined ? await getActiveTab() : { ...(await chrome.tabs.get(tabId)), id: tabId }
+  const diagnostics: Diagnostic[] = []
+
+  const [{ result: metrics }] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: () => ({
+      scrollHeight: (document.scrollingElement ?? document.documentElement).scrollHeight,
+      viewportWidth: window.innerWidth,
+      viewportHeight: window.innerHeight,
+      startLeft: window.scrollX,
+      startTop: window.scrollY,
+    }),
+  })
+  if (!metrics) {
+    throw new Error('Could not measure the page for a screenshot.')
+  }
+
+  let canvas: OffscreenCanvas | null = null
+  let context: OffscreenCanvasRenderingContext2D | null = null
+  let scale = 1
+
+  try {
+    for (let top = 0, frame = 0; top < metrics.scrollHeight; top += metrics.viewportHeight) {
+      const scrollTop = await scrollTab(tab.id, top, frame > 0)
+      if (frame > 0) {
+        await wait(CAPTURE_INTERVAL_MS)
+      }
+      const bitmap = await loadBitmap(
+        await chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' }),
+      )
+
+      if (!canvas || !context) {
+        scale = bitmap.width / metrics.viewportWidth
+        const fullHeight = Math.round(metrics.scrollHeight * scale)
+        if (fullHeight > MAX_CANVAS_HEIGHT) {
+          diagnostics.push(
+            createDiagnostic({
+              code: 'SCREENSHOT_TRUNCATED',
+              severity: 'warning',
+              stage: 'screenshot',
+              message: `Screenshot truncated to ${Math.floor(MAX_CANVAS_HEIGHT / scale)}px of ${metrics.scrollHeight}px page height.`,
+              elapsedMs: Math.round(performance.now() - startedAt),
+            }),
+          )
+        }
+        canvas = new OffscreenCanvas(bitmap.width, Math.min(fullHeight, MAX_CANVAS_HEIGHT))
+        context = canvas.getContext('2d')
+        if (!context) {
+          throw new Error('Could not create a canvas for the screenshot.')
+        }
+      }
+
+      const offset = Math.round(scrollTop * scale)
+      const frameBottom = offset + bitmap.height
+      context.drawImage(bitmap, 0, offset)
+      bitmap.close()
+      frame += 1
+      if (frameBottom >= canvas.height || scrollTop < top) {
+        break
+      }
+    }
+  } finally {
+    await restoreTab(tab.id, metrics.startLeft, metrics.startTop)
+  }
+
+  if (!canvas) {
+    throw new Error('No screenshot frames were captured.')
+  }
+
+  return {
+    blob: await canvas.convertToBlob({ type: 'image/png' }),
+    width: canvas.width,
+    height: canvas.height,
+    cssWidth: metrics.viewportWidth,
+    cssHeight: Math.round(canvas.height / scale),
+    diagnostics,
+  }
+}
+
+export const embedReferenceOverlay = async (html: string, screenshot: FullPageScreenshot) => {
+  const dataUrl = await readBlobAsDataUrl(screenshot.blob)
+  const style = `<style data-pc-reference-style="true">
+[data-pc-reference] > input { position: fixed; opacity: 0; pointer-events: none; }
+[data-pc-reference] > label { position: fixed; right: 12px; bottom: 12px; z-index: 2147483647; padding: 4px 12px; border-radius: 9999px; background: #1d4ed8; color: #fff; font: 600 12px/1.5 system-ui, sans-serif; cursor: pointer; user-select: none; }
+[data-pc-reference] > img { display: none; position: absolute; top: 0; left: 0; z-index: 2147483646; width: ${screenshot.cssWidth}px; max-width: none; height: auto; opacity: 0.6; pointer-events: none; }
+#pc-reference-toggle:checked + label { background: #0f172a; }
+#pc-reference-toggle:checked ~ img { display: block; }
+</style>`
+  const overlay = `<div data-pc-reference="true">
+<input type="checkbox" id="pc-reference-toggle">
+<label for="pc-reference-toggle">Reference</label>
+<img src="${escapeAttribute(dataUrl)}" alt="Reference screenshot" width="${screenshot.cssWidth}" height="${screenshot.cssHeight}">
+</div>`
+  // A CSP meta only applies to the markup after it, so the style opens the head to stay ahead of
+  // the one the capture adds.
+  const headStart = /<head\b[^>]*>/i.exec(html)
+  const styleAt = headStart ? headStart.index + headStart[0].length : 0
+  const withStyle = `${html.slice(0, styleAt)}${style}${html.slice(styleAt)}`
+  const bodyEnd = withStyle.lastIndexOf('</body>')
+  return bodyEnd === -1
+    ? `${withStyle}\n${overlay}`
+    : `${withStyle.slice(0, bodyEnd)}${overlay}${withStyle.slice(bodyEnd)}`
+}
@@ -0,0 +1,290 @@
+import { DEFAULT_CLEANUP_PACKS } from '@/lib/cleanup'
+import type { CloneOptions, DownloadFormat } from '@/lib/cloner'
+
+export type CaptureSettings = {
+  options: CloneOptions
+  format: DownloadFormat
+}
+
+export type Preset = CaptureSettings & {
+  id: string
+  name: string
+}
+
+export type DomainRule = {
+  id: string
+  pattern: string
+  presetId: string
+}
+
+export type SettingsExport = {
+  version: 1
+  captureSettings: CaptureSettings
+  presets: Preset[]
+  domainRules: DomainRule[]
+}
+
+const CAPTURE_SETTINGS_KEY = 'captureSettings'
+// Sync storage allows 8 KB per item, so each preset has its own item and `presetIds` keeps their
+// order. Older versions kept every preset in the single `presets` item.
+const PRESETS_KEY = 'presets'
+const PRESET_IDS_KEY = 'presetIds'
+const PRESET_KEY_PREFIX = 'preset:'
+const DOMAIN_RULES_KEY = 'domainRules'
+const DOWNLOAD_FORMATS: DownloadFormat[] = ['html', 'zip', 'mhtml', 'warc']
+
+export const DEFAULT_CLONE_OPTIONS: CloneOptions = {
+  removeScripts: true,
+  removeOriginalStyles: true,
+  useHostFetch: true,
+  addCsp: false,
+  inlineAssets: false,
+  maxInlineAssetBytes: 2048 * 1024,
+  preserveFormState: false,
+  includePasswords: false,
+  rasterizeMedia: true,
+  captureSelection: false,
+  inlineComputedStyles: false,
+  collectAssets: false,
+  recordResponses: false,
+  resolveLazyContent: false,
+  cleanupPacks: DEFAULT_CLEANUP_PACKS,
+  cleanupRules: [],
+  redactEmails: false,
+  redactPhoneNumbers: false,
+  redactCardNumbers: false,
+  redactPatterns: [],
+  redactSelectors: [],
+  stripDataAttributes: false,
+  stripUrlTokens: false,
+  fetchTimeoutMs: 10000,
+  fetchRetries: 1,
+  fetchAllowedHosts: [],
+}
+
+export const DEFAULT_PRESETS: Preset[] = [
+  {
+    id: 'archive',
+    name: 'Archive (inline everything)',
+    format: 'html',
+    options: {
+      ...DEFAULT_CLONE_OPTIONS,
+      addCsp: true,
+      inlineAssets: true,
+      maxInlineAssetBytes: 8192 * 1024,
+      preserveFormState: true,
+      resolveLazyContent: true,
+      cleanupPacks: [...DEFAULT_CLEANUP_PACKS, 'consent-banners', 'chat-widgets'],
+    },
+  },
+  {
+    id: 'design-handoff',
+    name: 'Design handoff (keep styles)',
+    format: 'zip',
+    options: {
+      ...DEFAULT_CLONE_OPTIONS,
+      removeOriginalStyles: false,
+      inlineAssets: false,
+    },
+  },
+  {
+    id: 'share-redacted',
+    name: 'Share safely (redacted)',
+    format: 'html',
+    options: {
+      ...DEFAULT_CLONE_OPTIONS,
+      addCsp: true,
+      inlineAssets: true,
+      cleanupPacks: [...DEFAULT_CLEANUP_PACKS, 'consent-banners', 'chat-widgets'],
+      redactEmails: true,
+      redactPhoneNumbers: true,
+      redactCardNumbers: true,
+      stripDataAttributes: true,
+      stripUrlTokens: true,
+    },
+  },
+]
+
+const normalizeCaptureSettings = (value: Partial<CaptureSettings> | undefined) => ({
+  options: { ...DEFAULT_CLONE_OPTIONS, ...value?.options },
+  format:
+    value?.format && DOWNLOAD_FORMATS.includes(value.format) ? value.format : ('html' as const),
+})
+
+const normalizePreset = (value: Partial<Preset>): Preset | null =>
+  typeof value.id === 'string' && typeof value.name === 'string'
+    ? { id: value.id, name: value.name, ...normalizeCaptureSettings(value) }
+    : null
+
+const normalizeDomainRule = (value: Partial<DomainRule>): DomainRule | null =>
+  typeof value.id === 'string' &&
+  typeof value.pattern === 'string' &&
+  typeof value.presetId === 'string'
+    ? { id: value.id, pattern: value.pattern, presetId: value.presetId }
+    : null
+
+const DERIVED_OPTIONS = new Set<keyof CloneOptions>([
+  'captureSelection',
+  'collectAssets',
+  'recordResponses',
+])
+
+export const isSameCaptureSettings = (a: CaptureSettings, b: CaptureSettings) =>
+  a.format === b.format &&
+  (Object.keys(DEFAULT_CLONE_OPTIONS) as Array<keyof CloneOptions>).every(
+    (key) =>
+      DERIVED_OPTIONS.has(key) || JSON.stringify(a.options[key]) === JSON.stringify(b.options[key]),
+  )
+
+export const matchesHostPattern = (hostname: string, pattern: string) => {
+  const normalized = pattern.trim().toLowerCase()
+  if (!normalized) {
+    return false
+  }
+  const host = hostname.toLowerCase()
+  if (normalized.startsWith('*.') && host === normalized.slice(2)) {
+    return true
+  }
+  const source = normalized
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`).test(host)
+}
+
+export const findPresetForUrl = (
+  url: string | undefined,
+  presets: Preset[],
+  rules: DomainRule[],
+) => {
+  if (!url) {
+    return null
+  }
+  let hostname = ''
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    return null
+  }
+  const rule = rules.find((candidate) => matchesHostPattern(hostname, candidate.pattern))
+  return presets.find((preset) => preset.id === rule?.presetId) ?? null
+}
+
+const presetKey = (id: string) => `${PRESET_KEY_PREFIX}${id}`
+
+const readPresetIds = (value: unknown) =>
+  Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : null
+
+const loadPresets = async (stored: Record<string, unknown>) => {
+  const ids = readPresetIds(stored[PRESET_IDS_KEY])
+  if (ids) {
+    const items = await chrome.storage.sync.get(ids.map(presetKey))
+    return ids.flatMap((id) => {
+      const value = items[presetKey(id)] as Partial<Preset> | undefined
+      return (value && normalizePreset(value)) ?? []
+    })
+  }
+  return Array.isArray(stored[PRESETS_KEY])
+    ? (stored[PRESETS_KEY] as Partial<Preset>[]).flatMap((value) => normalizePreset(value) ?? [])
+    : DEFAULT_PRESETS
+}
+
+// Sync counts the key and the JSON value against the per-item quota.
+const syncItemBytes = (key: string, value: unknown) =>
+  new TextEncoder().encode(key + JSON.stringify(value)).length
+
+const assertCaptureSettingsFit = (settings: CaptureSettings) => {
+  if (syncItemBytes(CAPTURE_SETTINGS_KEY, settings) > chrome.storage.sync.QUOTA_BYTES_PER_ITEM) {
+    throw new Error(
+      'The capture settings are too large to sync. Shorten the cleanup rules, redaction lists or allowed hosts.',
+    )
+  }
+}
+
+const writePresets = async (presets: Preset[], items: Record<string, unknown> = {}) => {
+  const ids = presets.map(({ id }) => id)
+  if (syncItemBytes(PRESET_IDS_KEY, ids) > chrome.storage.sync.QUOTA_BYTES_PER_ITEM) {
+    throw new Error('Too many presets to sync. Delete some presets and try again.')
+  }
+  const presetItems: Record<string, unknown> = { [PRESET_IDS_KEY]: ids }
+  presets.forEach((preset) => {
+    const key = presetKey(preset.id)
+    if (syncItemBytes(key, preset) > chrome.storage.sync.QUOTA_BYTES_PER_ITEM) {
+      throw new Error(
+        `The "${preset.name}" preset is too large to sync. Shorten its cleanup rules, redaction lists or allowed hosts.`,
+      )
+    }
+    presetItems[key] = preset
+  })
+  const stored = await chrome.storage.sync.get(PRESET_IDS_KEY)
+  const staleKeys = (readPresetIds(stored[PRESET_IDS_KEY]) ?? [])
+    .map(presetKey)
+    .filter((key) => !(key in presetItems))
+  await chrome.storage.sync.set({ ...items, ...presetItems })
+  await chrome.storage.sync.remove([PRESETS_KEY, ...staleKeys])
+}
+
+export const loadSettings = async () => {
+  const stored = await chrome.storage.sync.get([
+    CAPTURE_SETTINGS_KEY,
+    PRESET_IDS_KEY,
+    PRESETS_KEY,
+    DOMAIN_RULES_KEY,
+  ])
+  const presets = await loadPresets(stored)
+  const domainRules = Array.isArray(stored[DOMAIN_RULES_KEY])
+    ? (stored[DOMAIN_RULES_KEY] as Partial<DomainRule>[]).flatMap(
+        (value) => normalizeDomainRule(value) ?? [],
+      )
+    : []
+  return {
+    captureSettings: normalizeCaptureSettings(
+      stored[CAPTURE_SETTINGS_KEY] as Partial<CaptureSettings> | undefined,
+    ),
+    presets,
+    domainRules,
+  }
+}
+
+export const loadCaptureSettingsForUrl = async (url: string | undefined) => {
+  const { captureSettings, presets, domainRules } = await loadSettings()
+  const preset = findPresetForUrl(url, presets, domainRules)
+  return {
+    settings: preset ? { options: preset.options, format: preset.format } : captureSettings,
+    preset,
+  }
+}
+
+export const saveCaptureSettings = async (settings: CaptureSettings) => {
+  assertCaptureSettingsFit(settings)
+  await chrome.storage.sync.set({ [CAPTURE_SETTINGS_KEY]: settings })
+}
+
+export const savePresets = (presets: Preset[]) => writePresets(presets)
+
+export const saveDomainRules = (domainRules: DomainRule[]) =>
+  chrome.storage.sync.set({ [DOMAIN_RULES_KEY]: domainRules })
+
+export const exportSettings = async (): Promise<SettingsExport> => ({
+  version: 1,
+  ...(await loadSettings()),
+})
+
+export const importSettings = async (text: string) => {
+  const value = JSON.parse(text) as Partial<SettingsExport>
+  if (!value || typeof value !== 'object' || value.version !== 1) {
+    throw new Error('Unsupported settings file.')
+  }
+  const presets = (Array.isArray(value.presets) ? value.presets : []).flatMap(
+    (preset) => normalizePreset(preset) ?? [],
+  )
+  const domainRules = (Array.isArray(value.domainRules) ? value.domainRules : []).flatMap(
+    (rule) => normalizeDomainRule(rule) ?? [],
+  )
+  const captureSettings = normalizeCaptureSettings(value.captureSettings)
+  assertCaptureSettingsFit(captureSettings)
+  await writePresets(presets, {
+    [CAPTURE_SETTINGS_KEY]: captureSettings,
+    [DOMAIN_RULES_KEY]: domainRules,
+  })
+}
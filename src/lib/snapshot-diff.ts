@@ -0,0 +1,309 @@
+export type DiffChange = 'added' | 'removed' | 'changed'
+
+export type DomChange = {
+  change: DiffChange
+  path: string
+  detail: string
+}
+
+export type TextChange = {
+  change: 'added' | 'removed'
+  text: string
+}
+
+export type CssRuleChange = {
+  change: DiffChange
+  selector: string
+  before: string | null
+  after: string | null
+}
+
+export type SnapshotDiff = {
+  dom: DomChange[]
+  text: TextChange[]
+  css: CssRuleChange[]
+  // Both snapshots with changed elements marked, ready for a sandboxed srcdoc frame.
+  beforeHtml: string
+  afterHtml: string
+}
+
+export const DIFF_ATTRIBUTE = 'data-pc-diff'
+
+// Beyond this many comparisons, the unmatched middle of two sequences is reported as replaced.
+const MAX_ALIGN_CELLS = 4_000_000
+const SKIPPED_TEXT_PARENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'])
+
+const HIGHLIGHT_CSS = `
+[${DIFF_ATTRIBUTE}] { outline-offset: -2px !important; }
+[${DIFF_ATTRIBUTE}="added"] { outline: 2px solid #16a34a !important; }
+[${DIFF_ATTRIBUTE}="removed"] { outline: 2px solid #dc2626 !important; }
+[${DIFF_ATTRIBUTE}="changed"] { outline: 2px dashed #d97706 !important; }
+`
+
+// Pairs equal items in order; an item without a partner is paired with `null`.
+const alignSequences = <T>(
+  before: T[],
+  after: T[],
+  isSame: (a: T, b: T) => boolean,
+): Array<[T | null, T | null]> => {
+  let start = 0
+  while (start < before.length && start < after.length && isSame(before[start], after[start])) {
+    start += 1
+  }
+  let endBefore = before.length
+  let endAfter = after.length
+  while (
+    endBefore > start &&
+    endAfter > start &&
+    isSame(before[endBefore - 1], after[endAfter - 1])
+  ) {
+    endBefore -= 1
+    endAfter -= 1
+  }
+
+  const head = before.slice(0, start).map((item, index): [T, T] => [item, after[index]])
+  const tail = before.slice(endBefore).map((item, index): [T, T] => [item, after[endAfter + index]])
+  const middleBefore = before.slice(start, endBefore)
+  const middleAfter = after.slice(start, endAfter)
+  const rows = middleBefore.length + 1
+  const columns = middleAfter.length + 1
+
+  if (rows * columns > MAX_ALIGN_CELLS) {
+    return [
+      ...head,
+      ...middleBefore.map((item): [T, null] => [item, null]),
+      ...middleAfter.map((item): [null, T] => [null, item]),
+      ...tail,
+    ]
+  }
+
+  const lengths = new Uint32Array(rows * columns)
+  for (let i = middleBefore.length - 1; i >= 0; i -= 1) {
+    for (let j = middleAfter.length - 1; j >= 0; j -= 1) {
+      lengths[i * columns + j] = isSame(middleBefore[i], middleAfter[j])
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1])
+    }
+  }
+
+  const middle: Array<[T | null, T | null]> = []
+  let i = 0
+  let j = 0
+  while (i < middleBefore.length || j < middleAfter.length) {
+    if (
+      i < middleBefore.length &&
+      j < middleAfter.length &&
+      isSame(middleBefore[i], middleAfter[j])
+    ) {
+      middle.push([middleBefore[i], middleAfter[j]])
+      i += 1
+      j += 1
+    } else if (
+      j >= middleAfter.length ||
+      (i < middleBefore.length && lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])
+    ) {
+      middle.push([middleBefore[i], null])
+      i += 1
+    } else {
+      middle.push([null, middleAfter[j]])
+      j += 1
+    }
+  }
+  return [...head, ...middle, ...tail]
+}
+
+const collapseWhitespace = (value: string) => value.replace(/\s+/g, ' ').trim()
+
+const describeElement = (element: Element) => {
+  const tag = element.tagName.toLowerCase()
+  if (element.id) {
+    return `${tag}#${element.id}`
+  }
+  const className = element.getAttribute('class')?.trim().split(/\s+/)[0]
+  return className ? `${tag}.${className}` : tag
+}
+
+const elementPath = (element: Element) => {
+  const parts: string[] = []
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    parts.unshift(describeElement(current))
+  }
+  return parts.join(' > ')
+}
+
+const ownText = (element: Element) =>
+  SKIPPED_TEXT_PARENTS.has(element.tagName)
+    ? ''
+    : collapseWhitespace(
+        Array.from(element.childNodes)
+          .filter((node) => node.nodeType === Node.TEXT_NODE)
+          .map((node) => node.textContent ?? '')
+          .join(' '),
+      )
+
+const elementKey = (element: Element) => `${element.tagName}#${element.id}`
+
+const markElement = (element: Element, change: DiffChange) => {
+  if (!element.hasAttribute(DIFF_ATTRIBUTE)) {
+    element.setAttribute(DIFF_ATTRIBUTE, change)
+  }
+}
+
+const diffElements = (before: Element, after: Element, changes: DomChange[]) => {
+  const names = new Set([...before.getAttributeNames(), ...after.getAttributeNames()])
+  const changedAttributes = Array.from(names).filter(
+    (name) => before.getAttribute(name) !== after.getAttribute(name),
+  )
+  if (changedAttributes.length > 0) {
+    changes.push({
+      change: 'changed',
+      path: elementPath(after),
+      detail: `Attributes: ${changedAttributes.join(', ')}`,
+    })
+  }
+  const beforeText = ownText(before)
+  const afterText = ownText(after)
+  if (beforeText !== afterText) {
+    changes.push({
+      change: 'changed',
+      path: elementPath(after),
+      detail: `Text: "${beforeText}" → "${afterText}"`,
+    })
+  }
+  if (changedAttributes.length > 0 || beforeText !== afterText) {
+    markElement(before, 'changed')
+    markElement(after, 'changed')
+  }
+
+  alignSequences(
+    Array.from(before.children),
+    Array.from(after.children),
+    (a, b) => elementKey(a) === elementKey(b),
+  ).forEach(([beforeChild, afterChild]) => {
+    if (beforeChild && afterChild) {
+      diffElements(beforeChild, afterChild, changes)
+    } else if (beforeChild) {
+      changes.push({
+        change: 'removed',
+        path: elementPath(beforeChild),
+        detail: collapseWhitespace(beforeChild.textContent ?? '').slice(0, 120),
+      })
+      markElement(beforeChild, 'removed')
+    } else if (afterChild) {
+      changes.push({
+        change: 'added',
+        path: elementPath(afterChild),
+        detail: collapseWhitespace(afterChild.textContent ?? '').slice(0, 120),
+      })
+      markElement(afterChild, 'added')
+    }
+  })
+}
+
+const collectTextLines = (document: Document) => {
+  const lines: string[] = []
+  if (!document.body) {
+    return lines
+  }
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT)
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = collapseWhitespace(node.textContent ?? '')
+    if (text && !SKIPPED_TEXT_PARENTS.has(node.parentElement?.tagName ?? '')) {
+      lines.push(text)
+    }
+  }
+  return lines
+}
+
+const diffText = (before: Document, after: Document): TextChange[] =>
+  alignSequences(collectTextLines(before), collectTextLines(after), (a, b) => a === b).flatMap(
+    ([beforeLine, afterLine]): TextChange[] => {
+      if (beforeLine !== null && afterLine !== null) {
+        return []
+      }
+      return beforeLine !== null
+        ? [{ change: 'removed', text: beforeLine }]
+        : [{ change: 'added', text: afterLine ?? '' }]
+    },
+  )
+
+const collectExtractedRules = (document: Document) => {
+  const sheet = new CSSStyleSheet()
+  sheet.replaceSync(
+    Array.from(document.querySelectorAll('style[data-pc-extracted]'))
+      .map((style) => style.textContent ?? '')
+      .join('\n'),
+  )
+  const rules = new Map<string, string[]>()
+  Array.from(sheet.cssRules).forEach((rule) => {
+    const selector = rule.cssText.slice(0, rule.cssText.indexOf('{')).trim()
+    rules.set(selector, [...(rules.get(selector) ?? []), rule.cssText])
+  })
+  return rules
+}
+
+const diffCss = (before: Document, after: Document): CssRuleChange[] => {
+  const beforeRules = collectExtractedRules(before)
+  const afterRules = collectExtractedRules(after)
+  const selectors = new Set([...beforeRules.keys(), ...afterRules.keys()])
+  return Array.from(selectors).flatMap((selector): CssRuleChange[] => {
+    const beforeText = beforeRules.get(selector)?.join('\n') ?? null
+    const afterText = afterRules.get(selector)?.join('\n') ?? null
+    if (beforeText === afterText) {
+      return []
+    }
+    const change = beforeText === null ? 'added' : afterText === null ? 'removed' : 'changed'
+    return [{ change, selector, before: beforeText, after: afterText }]
+  })
+}
+
+// The highlight sheet goes first in <head> so a snapshot's CSP meta cannot block it.
+const serializeWithHighlights = (document: Document) => {
+  const style = document.createElement('style')
+  style.textContent = HIGHLIGHT_CSS
+  document.head.prepend(style)
+  const doctype = document.doctype ? `<!DOCTYPE ${document.doctype.name}>` : '<!DOCTYPE html>'
+  return `${doctype}\n${document.documentElement.outerHTML}`
+}
+
+export const diffSnapshots = (beforeHtml: string, afterHtml: string): SnapshotDiff => {
+  const parser = new DOMParser()
+  const before = parser.parseFromString(beforeHtml, 'text/html')
+  const after = parser.parseFromString(afterHtml, 'text/html')
+  const text = diffText(before, after)
+  const css = diffCss(before, after)
+  const dom: DomChange[] = []
+  diffElements(before.documentElement, after.documentElement, dom)
+  return {
+    dom,
+    text,
+    css,
+    beforeHtml: serializeWithHighlights(before),
+    afterHtml: serializeWithHighlights(after),
+  }
+}
+
+export const summarizeSnapshotDiff = ({ dom, text, css }: SnapshotDiff) => {
+  const count = (changes: Array<{ change: DiffChange }>, change: DiffChange) =>
+    changes.filter((entry) => entry.change === change).length
+  return {
+    dom: {
+      added: count(dom, 'added'),
+      removed: count(dom, 'removed'),
+      changed: count(dom, 'changed'),
+    },
+    text: { added: count(text, 'added'), removed: count(text, 'removed') },
+    css: {
+      added: count(css, 'added'),
+      removed: count(css, 'removed'),
+      changed: count(css, 'changed'),
+    },
+  }
+}
+
+export const openComparePage = (beforeId?: string) =>
+  chrome.tabs.create({
+    url: chrome.runtime.getURL(
+      beforeId ? `compare.html?before=${encodeURIComponent(beforeId)}` : 'compare.html',
+    ),
+  })
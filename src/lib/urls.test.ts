@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  parseSrcset,
+  resolveAssetUrl,
+  resolveUrl,
+  rewriteCssUrls,
+  serializeSrcset,
+} from '@/lib/urls'
+
+const BASE = 'https://example.com/css/site.css'
+
+describe('rewriteCssUrls', () => {
+  it('resolves relative URLs against the base and double-quotes them', () => {
+    expect(rewriteCssUrls("a{background:url(../img/a.png)}", BASE)).toBe(
+      'a{background:url("https://example.com/img/a.png")}',
+    )
+    expect(rewriteCssUrls("a{background:url( 'b.png' )}", BASE)).toBe(
+      'a{background:url("https://example.com/css/b.png")}',
+    )
+  })
+
+  it('keeps data, blob and fragment URLs as written', () => {
+    const css = 'a{background:url(data:image/png;base64,AAAA)}b{mask:url(#clip)}'
+    expect(rewriteCssUrls(css, BASE)).toBe(css)
+  })
+
+  it('rewrites every url() in a declaration', () => {
+    expect(rewriteCssUrls('@font-face{src:url(a.woff2),url("/b.woff")}', BASE)).toBe(
+      '@font-face{src:url("https://example.com/css/a.woff2"),url("https://example.com/b.woff")}',
+    )
+  })
+
+  it('leaves the text alone without a base URL', () => {
+    expect(rewriteCssUrls('a{background:url(a.png)}', null)).toBe('a{background:url(a.png)}')
+  })
+})
+
+describe('resolveUrl', () => {
+  it('skips URLs that cannot be fetched', () => {
+    expect(resolveUrl('javascript:void(0)', BASE)).toBeNull()
+    expect(resolveUrl('  ', BASE)).toBeNull()
+    expect(resolveUrl('/a', BASE)).toBe('https://example.com/a')
+  })
+
+  it('only returns http and https asset URLs', () => {
+    expect(resolveAssetUrl('ftp://example.com/a.png', BASE)).toBeNull()
+    expect(resolveAssetUrl('a.png', BASE)).toBe('https://example.com/css/a.png')
+  })
+})
+
+describe('parseSrcset', () => {
+  it('splits candidates and their descriptors', () => {
+    expect(parseSrcset('a.png 1x, b.png 2x')).toEqual([
+      { url: 'a.png', descriptor: '1x' },
+      { url: 'b.png', descriptor: '2x' },
+    ])
+  })
+
+  it('keeps commas inside URLs', () => {
+    expect(parseSrcset('https://cdn.test/w_200,h_100/a.jpg 200w,b.jpg')).toEqual([
+      { url: 'https://cdn.test/w_200,h_100/a.jpg', descriptor: '200w' },
+      { url: 'b.jpg', descriptor: '' },
+    ])
+  })
+
+  it('round-trips through serializeSrcset', () => {
+    const candidates = parseSrcset('a.png 1x,  b.png   2x')
+    expect(serializeSrcset(candidates)).toBe('a.png 1x, b.png 2x')
+  })
+})
@@ -0,0 +1,82 @@
+export type SrcsetCandidate = {
+  url: string
+  descriptor: string
+}
+
+export const shouldSkipUrl = (url: string) =>
+  !url ||
+  url.startsWith('data:') ||
+  url.startsWith('blob:') ||
+  url.startsWith('about:') ||
+  url.startsWith('javascript:') ||
+  url.startsWith('#')
+
+export const resolveUrl = (url: string | null, baseUrl: string) => {
+  const trimmed = url?.trim() ?? ''
+  if (shouldSkipUrl(trimmed)) {
+    return null
+  }
+  try {
+    return new URL(trimmed, baseUrl).href
+  } catch {
+    return null
+  }
+}
+
+export const resolveAssetUrl = (url: string | null, baseUrl: string) => {
+  const absolute = resolveUrl(url, baseUrl)
+  return absolute && /^https?:/i.test(absolute) ? absolute : null
+}
+
+export const parseSrcset = (value: string) => {
+  const candidates: SrcsetCandidate[] = []
+  let index = 0
+  while (index < value.length) {
+    while (index < value.length && /[\s,]/.test(value[index])) {
+      index += 1
+    }
+    if (index >= value.length) {
+      break
+    }
+    let end = index
+    while (end < value.length && !/\s/.test(value[end])) {
+      end += 1
+    }
+    let url = value.slice(index, end)
+    let descriptor = ''
+    index = end
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '')
+    } else {
+      const commaIndex = value.indexOf(',', index)
+      const stop = commaIndex === -1 ? value.length : commaIndex
+      descriptor = value.slice(index, stop).trim()
+      index = stop + 1
+    }
+    if (url) {
+      candidates.push({ url, descriptor })
+    }
+  }
+  return candidates
+}
+
+export const serializeSrcset = (candidates: SrcsetCandidate[]) =>
+  candidates.map(({ url, descriptor }) => (descriptor ? `${url} ${descriptor}` : url)).join(', ')
+
+// Makes every `url(...)` absolute against `baseUrl` and normalizes it to double quotes.
+export const rewriteCssUrls = (cssText: string, baseUrl: string | null) => {
+  if (!baseUrl) {
+    return cssText
+  }
+  return cssText.replace(/url\(\s*(?:['"]?)([^'")]+)(?:['"]?)\s*\)/gi, (match, url: string) => {
+    if (shouldSkipUrl(url)) {
+      return match
+    }
+    try {
+      const absolute = new URL(url, baseUrl).href
+      return `url("${absolute}")`
+    } catch {
+      return match
+    }
+  })
+}
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import {
+  collectRules,
+  collectUsedCss,
+  normalizeSelector,
+  selectorMatches,
+  splitSelectors,
+  type RuleCollection,
+} from '@/lib/used-css'
+
+const parseRules = (cssText: string) => {
+  const style = document.createElement('style')
+  style.textContent = cssText
+  document.head.append(style)
+  const rules = style.sheet?.cssRules ?? null
+  style.remove()
+  return rules
+}
+
+const createCollection = (patch: Partial<RuleCollection> = {}): RuleCollection => ({
+  includeStyleRules: true,
+  embedCss: async (cssText) => cssText,
+  matchScope: document,
+  fontFaces: new Set<string>(),
+  keyframes: new Set<string>(),
+  collectSheet: async () => undefined,
+  ...patch,
+})
+
+afterEach(() => {
+  document.head.replaceChildren()
+  document.body.replaceChildren()
+})
+
+describe('splitSelectors', () => {
+  it('splits on top-level commas only', () => {
+    expect(splitSelectors('a, b > c,d')).toEqual(['a', 'b > c', 'd'])
+    expect(splitSelectors(':is(a, b), [data-x="1,2"], c')).toEqual([
+      ':is(a, b)',
+      '[data-x="1,2"]',
+      'c',
+    ])
+  })
+
+  it('keeps escaped quotes inside strings', () => {
+    expect(splitSelectors('[title="a\\",b"], c')).toEqual(['[title="a\\",b"]', 'c'])
+  })
+
+  it('drops empty selectors', () => {
+    expect(splitSelectors(' a ,, b , ')).toEqual(['a', 'b'])
+  })
+})
+
+describe('normalizeSelector', () => {
+  it('strips pseudo-elements and state pseudo-classes', () => {
+    expect(normalizeSelector('a:hover::before')).toBe('a')
+    expect(normalizeSelector('.menu li:focus-within > a:visited')).toBe('.menu li > a')
+    expect(normalizeSelector('p:first-child')).toBe('p:first-child')
+  })
+})
+
+describe('selectorMatches', () => {
+  it('matches against the document', () => {
+    document.body.innerHTML = '<nav class="menu"><a href="#">Home</a></nav>'
+    expect(selectorMatches('.menu a', document)).toBe(true)
+    expect(selectorMatches('.footer a', document)).toBe(false)
+  })
+
+  it('falls back to the normalized selector when the original matches nothing', () => {
+    document.body.innerHTML = '<input class="field">'
+    expect(selectorMatches('.field::placeholder', document)).toBe(true)
+    expect(selectorMatches('.missing::placeholder', document)).toBe(false)
+  })
+
+  it('treats the document root and body as ancestors of an element scope', () => {
+    document.body.className = 'dark'
+    document.body.innerHTML = '<section><p>Text</p></section>'
+    const section = document.querySelector('section') as Element
+    expect(selectorMatches('.dark p', section)).toBe(true)
+    expect(selectorMatches('article p', section)).toBe(false)
+  })
+})
+
+describe('collectRules', () => {
+  it('keeps only the style rules that match', async () => {
+    document.body.innerHTML = '<p class="used">Text</p>'
+    const collected = await collectRules(
+      parseRules('.used { color: red; } .unused { color: blue; }'),
+      null,
+      createCollection(),
+    )
+    expect(collected).toEqual(['.used {color: red;}'])
+  })
+
+  it('keeps group rules around matching rules and drops empty ones', async () => {
+    document.body.innerHTML = '<p class="used">Text</p>'
+    const collected = await collectRules(
+      parseRules(
+        '@media (min-width: 600px) { .used { color: red; } }' +
+          '@media print { .unused { color: blue; } }' +
+          '@supports (display: grid) { .used { display: grid; } }',
+      ),
+      null,
+      createCollection(),
+    )
+    expect(collected).toEqual([
+      '@media (min-width: 600px){.used {color: red;}}',
+      '@supports (display: grid){.used {display: grid;}}',
+    ])
+  })
+
+  it('moves font faces and keyframes into their own sets', async () => {
+    const collection = createCollection()
+    const collected = await collectRules(
+      parseRules('@font-face { font-family: Brand; src: url(a.woff); } @keyframes spin {}'),
+      null,
+      collection,
+    )
+    expect(collected).toEqual([])
+    expect(Array.from(collection.fontFaces)).toEqual([
+      '@font-face {font-family: Brand; src: url(a.woff);}',
+    ])
+    expect(collection.keyframes.size).toBe(1)
+  })
+
+  it('skips style rules when computed styles are frozen', async () => {
+    document.body.innerHTML = '<p class="used">Text</p>'
+    const collected = await collectRules(
+      parseRules('.used { color: red; }'),
+      null,
+      createCollection({ includeStyleRules: false }),
+    )
+    expect(collected).toEqual([])
+  })
+
+  it('passes each kept rule and its base URL through embedCss', async () => {
+    document.body.innerHTML = '<p class="used">Text</p>'
+    const calls: Array<string | null> = []
+    const collected = await collectRules(
+      parseRules('.used { background: url(a.png); }'),
+      'https://example.com/site.css',
+      createCollection({
+        embedCss: async (cssText, baseUrl) => {
+          calls.push(baseUrl)
+          return cssText.replace('a.png', 'data:image/png;base64,AAAA')
+        },
+      }),
+    )
+    expect(calls).toEqual(['https://example.com/site.css'])
+    expect(collected).toEqual(['.used {background: url(data:image/png;base64,AAAA);}'])
+  })
+})
+
+describe('collectUsedCss', () => {
+  it('puts font faces and keyframes ahead of the used rules', async () => {
+    document.head.innerHTML =
+      '<style>.used { animation: spin 1s; } @keyframes spin {} @font-face { font-family: Brand; }' +
+      '.unused { color: blue; }</style>'
+    document.body.innerHTML = '<p class="used">Text</p>'
+    const css = await collectUsedCss(document, document, {
+      includeStyleRules: true,
+      embedCss: async (cssText) => cssText,
+      fetchBlockedSheet: async () => null,
+    })
+    expect(css.indexOf('@font-face')).toBe(0)
+    expect(css.indexOf('@keyframes spin')).toBeLessThan(css.indexOf('.used'))
+    expect(css.endsWith('.used {animation: spin 1s;}')).toBe(true)
+    expect(css).not.toContain('.unused')
+  })
+})
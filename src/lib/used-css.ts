@@ -0,0 +1,232 @@
+import { rewriteCssUrls } from '@/lib/urls'
+
+export type MatchScope = Document | ShadowRoot | Element
+
+export type UsedCssOptions = {
+  // Frozen computed styles replace the page's style rules; at-rules such as @font-face stay.
+  includeStyleRules: boolean
+  embedCss: (cssText: string, baseUrl: string | null) => Promise<string>
+  // Resolves to the text of a cross-origin sheet whose rules cannot be read, or null.
+  fetchBlockedSheet: (href: string) => Promise<string | null>
+  onSheet?: (index: number, total: number) => void
+}
+
+export type RuleCollection = Pick<UsedCssOptions, 'includeStyleRules' | 'embedCss'> & {
+  matchScope: MatchScope
+  fontFaces: Set<string>
+  keyframes: Set<string>
+  collectSheet: (sheet: CSSStyleSheet) => Promise<void>
+}
+
+// Splits a selector list on top-level commas, leaving commas inside `()`, `[]` and strings.
+export const splitSelectors = (selectorText: string) => {
+  const selectors: string[] = []
+  let current = ''
+  let depth = 0
+  let quote: string | null = null
+  for (let i = 0; i < selectorText.length; i += 1) {
+    const char = selectorText[i]
+    if (quote) {
+      current += char
+      if (char === quote && selectorText[i - 1] !== '\\') {
+        quote = null
+      }
+      continue
+    }
+    if (char === '"' || char === "'") {
+      quote = char
+      current += char
+      continue
+    }
+    if (char === '(' || char === '[') {
+      depth += 1
+      current += char
+      continue
+    }
+    if (char === ')' || char === ']') {
+      depth = Math.max(0, depth - 1)
+      current += char
+      continue
+    }
+    if (char === ',' && depth === 0) {
+      const trimmed = current.trim()
+      if (trimmed) {
+        selectors.push(trimmed)
+      }
+      current = ''
+      continue
+    }
+    current += char
+  }
+  const trimmed = current.trim()
+  if (trimmed) {
+    selectors.push(trimmed)
+  }
+  return selectors
+}
+
+// Drops pseudo-elements and state pseudo-classes, which never match a static query.
+export const normalizeSelector = (selector: string) => {
+  let normalized = selector
+  normalized = normalized.replace(/::?before|::?after/gi, '')
+  normalized = normalized.replace(/::[\w-]+/g, '')
+  normalized = normalized.replace(
+    /:(hover|active|focus|focus-visible|focus-within|visited|link|checked|disabled|enabled|target)(?![\w-])/gi,
+    '',
+  )
+  return normalized.trim()
+}
+
+const matchesInScope = (selector: string, scope: MatchScope) => {
+  if (!(scope instanceof Element)) {
+    return scope.querySelector(selector) !== null
+  }
+  return (
+    scope.matches(selector) ||
+    scope.querySelector(selector) !== null ||
+    document.documentElement.matches(selector) ||
+    Boolean(document.body?.matches(selector))
+  )
+}
+
+export const selectorMatches = (selector: string, scope: MatchScope) => {
+  if (scope instanceof ShadowRoot && /:host|::slotted/.test(selector)) {
+    return true
+  }
+  // Pseudo-element and state selectors match nothing or throw, so a miss retries without them.
+  try {
+    if (matchesInScope(selector, scope)) {
+      return true
+    }
+  } catch {
+    // Fall through to the normalized selector.
+  }
+  const normalized = normalizeSelector(selector)
+  if (!normalized || normalized === selector) {
+    return false
+  }
+  try {
+    return matchesInScope(normalized, scope)
+  } catch {
+    return false
+  }
+}
+
+// Keeps the style rules that match something in scope, with the group rules around them.
+// @font-face and @keyframes rules go to their own sets so they can lead the extracted sheet.
+export const collectRules = async (
+  rules: CSSRuleList | null,
+  baseUrl: string | null,
+  collection: RuleCollection,
+): Promise<string[]> => {
+  if (!rules) {
+    return []
+  }
+  const { includeStyleRules, embedCss, matchScope, fontFaces, keyframes, collectSheet } =
+    collection
+  const collected: string[] = []
+  for (const rule of Array.from(rules)) {
+    if (rule instanceof CSSStyleRule) {
+      if (!includeStyleRules) {
+        continue
+      }
+      const selectors = splitSelectors(rule.selectorText)
+      if (selectors.some((selector) => selectorMatches(selector, matchScope))) {
+        collected.push(await embedCss(rule.cssText, baseUrl))
+      }
+      continue
+    }
+    if (rule instanceof CSSMediaRule) {
+      const nested = await collectRules(rule.cssRules, baseUrl, collection)
+      if (nested.length > 0) {
+        collected.push(`@media ${rule.conditionText}{${nested.join('')}}`)
+      }
+      continue
+    }
+    if (rule instanceof CSSSupportsRule) {
+      if (!CSS.supports(rule.conditionText)) {
+        continue
+      }
+      const nested = await collectRules(rule.cssRules, baseUrl, collection)
+      if (nested.length > 0) {
+        collected.push(`@supports ${rule.conditionText}{${nested.join('')}}`)
+      }
+      continue
+    }
+    if (rule instanceof CSSKeyframesRule) {
+      keyframes.add(rule.cssText)
+      continue
+    }
+    if (rule instanceof CSSFontFaceRule) {
+      fontFaces.add(await embedCss(rule.cssText, baseUrl))
+      continue
+    }
+    if (rule instanceof CSSImportRule) {
+      if (rule.styleSheet) {
+        await collectSheet(rule.styleSheet)
+      }
+      continue
+    }
+    if ('cssRules' in rule) {
+      const nested = await collectRules((rule as CSSGroupingRule).cssRules, baseUrl, collection)
+      if (nested.length > 0) {
+        collected.push(await embedCss(rule.cssText, baseUrl))
+      }
+      continue
+    }
+  }
+  return collected
+}
+
+const parseRulesFromText = (cssText: string) => {
+  const tempDoc = document.implementation.createHTMLDocument('')
+  const styleEl = tempDoc.createElement('style')
+  styleEl.textContent = cssText
+  tempDoc.head.appendChild(styleEl)
+  return styleEl.sheet?.cssRules ?? null
+}
+
+export const collectUsedCss = async (
+  scope: Document | ShadowRoot,
+  matchScope: MatchScope,
+  { includeStyleRules, embedCss, fetchBlockedSheet, onSheet }: UsedCssOptions,
+) => {
+  const usedRules: string[] = []
+  const visitedSheets = new Set<CSSStyleSheet>()
+  const collection: RuleCollection = {
+    includeStyleRules,
+    embedCss,
+    matchScope,
+    fontFaces: new Set<string>(),
+    keyframes: new Set<string>(),
+    collectSheet: async (sheet) => {
+      if (visitedSheets.has(sheet)) {
+        return
+      }
+      visitedSheets.add(sheet)
+      let rules: CSSRuleList
+      try {
+        rules = sheet.cssRules
+      } catch {
+        if (!sheet.href) {
+          return
+        }
+        const text = await fetchBlockedSheet(sheet.href)
+        if (text !== null) {
+          const parsedRules = parseRulesFromText(rewriteCssUrls(text, sheet.href))
+          usedRules.push(...(await collectRules(parsedRules, sheet.href, collection)))
+        }
+        return
+      }
+      usedRules.push(...(await collectRules(rules, sheet.href ?? document.baseURI, collection)))
+    },
+  }
+
+  const sheets = [...Array.from(scope.styleSheets), ...scope.adoptedStyleSheets]
+  for (const [index, sheet] of sheets.entries()) {
+    onSheet?.(index, sheets.length)
+    await collection.collectSheet(sheet)
+  }
+
+  return [...collection.fontFaces, ...collection.keyframes, ...usedRules].join('\n')
+}
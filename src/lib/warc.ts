@@ -0,0 +1,167 @@
+export type WarcResponse = {
+  url: string
+  status: number
+  statusText: string
+  headers: Array<[string, string]>
+  body: Uint8Array<ArrayBuffer>
+}
+
+export type WarcResource = {
+  url: string
+  contentType: string
+  body: Uint8Array<ArrayBuffer>
+}
+
+export type WarcCapture = {
+  filename: string
+  url: string | null
+  title: string | null
+  snapshotHtml: string
+  responses: WarcResponse[]
+  resources: WarcResource[]
+  capturedAt?: Date
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+// Headers the browser has already applied to the body handed back by fetch().
+const STRIPPED_HTTP_HEADERS = new Set(['content-encoding', 'transfer-encoding', 'content-length'])
+
+const encodeBase32 = (bytes: Uint8Array) => {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  bytes.forEach((byte) => {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  })
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  }
+  return output.padEnd(Math.ceil(output.length / 8) * 8, '=')
+}
+
+const sha256Digest = async (bytes: Uint8Array<ArrayBuffer>) =>
+  `sha256:${encodeBase32(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)))}`
+
+const concatBytes = (...chunks: Uint8Array[]) => {
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset)
+    offset += chunk.length
+  })
+  return output
+}
+
+const recordId = () => `<urn:uuid:${crypto.randomUUID()}>`
+
+const formatWarcDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+export const createWarc = async ({
+  filename,
+  url,
+  title,
+  snapshotHtml,
+  responses,
+  resources,
+  capturedAt,
+}: WarcCapture) => {
+  const encoder = new TextEncoder()
+  const warcDate = formatWarcDate(capturedAt ?? new Date())
+  const warcinfoId = recordId()
+  const parts: Uint8Array<ArrayBuffer>[] = []
+
+  const pushRecord = async (fields: Array<[string, string]>, block: Uint8Array<ArrayBuffer>) => {
+    const header = [
+      'WARC/1.1',
+      ...fields.map(([name, value]) => `${name}: ${value}`),
+      `WARC-Block-Digest: ${await sha256Digest(block)}`,
+      `Content-Length: ${block.length}`,
+      '',
+      '',
+    ].join('\r\n')
+    parts.push(encoder.encode(header), block, encoder.encode('\r\n\r\n'))
+  }
+
+  const warcinfo = [
+    'software: PageSnap',
+    'format: WARC File Format 1.1',
+    'conformsTo: https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/',
+    ...(title ? [`description: ${title.replace(/[\r\n]+/g, ' ')}`] : []),
+    '',
+  ].join('\r\n')
+  await pushRecord(
+    [
+      ['WARC-Type', 'warcinfo'],
+      ['WARC-Record-ID', warcinfoId],
+      ['WARC-Date', warcDate],
+      ['WARC-Filename', filename],
+      ['Content-Type', 'application/warc-fields'],
+    ],
+    encoder.encode(warcinfo),
+  )
+
+  let pageResponseId: string | null = null
+  for (const response of responses) {
+    const id = recordId()
+    if (response.url === url) {
+      pageResponseId = id
+    }
+    const reason = response.statusText || (response.status === 200 ? 'OK' : '')
+    const httpHeader = [
+      `HTTP/1.1 ${response.status} ${reason}`.trimEnd(),
+      ...response.headers
+        .filter(([name]) => !STRIPPED_HTTP_HEADERS.has(name.toLowerCase()))
+        .map(([name, value]) => `${name}: ${value}`),
+      `content-length: ${response.body.length}`,
+      '',
+      '',
+    ].join('\r\n')
+    await pushRecord(
+      [
+        ['WARC-Type', 'response'],
+        ['WARC-Record-ID', id],
+        ['WARC-Date', warcDate],
+        ['WARC-Target-URI', response.url],
+        ['WARC-Warcinfo-ID', warcinfoId],
+        ['WARC-Payload-Digest', await sha256Digest(response.body)],
+        ['Content-Type', 'application/http;msgtype=response'],
+      ],
+      concatBytes(encoder.encode(httpHeader), response.body),
+    )
+  }
+
+  for (const resource of resources) {
+    await pushRecord(
+      [
+        ['WARC-Type', 'resource'],
+        ['WARC-Record-ID', recordId()],
+        ['WARC-Date', warcDate],
+        ['WARC-Target-URI', resource.url],
+        ['WARC-Warcinfo-ID', warcinfoId],
+        ['Content-Type', resource.contentType],
+      ],
+      resource.body,
+    )
+  }
+
+  await pushRecord(
+    [
+      ['WARC-Type', 'resource'],
+      ['WARC-Record-ID', recordId()],
+      ['WARC-Date', warcDate],
+      ['WARC-Target-URI', `urn:pagesnap:snapshot:${url ?? 'about:blank'}`],
+      ['WARC-Warcinfo-ID', warcinfoId],
+      ...(pageResponseId ? [['WARC-Concurrent-To', pageResponseId] as [string, string]] : []),
+      ['Content-Type', 'text/html; charset=utf-8'],
+    ],
+    encoder.encode(snapshotHtml),
+  )
+
+  return new Blob(parts, { type: 'application/warc' })
+}
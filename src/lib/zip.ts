@@ -0,0 +1,96 @@
+export type ZipEntry = {
+  path: string
+  data: Uint8Array<ArrayBuffer>
+  modifiedAt?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n += 1) {
+    let c = n
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const deflateRaw = async (data: Uint8Array<ArrayBuffer>) => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+export const createZip = async (entries: ZipEntry[]) => {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const crc = crc32(entry.data)
+    const deflated = await deflateRaw(entry.data)
+    const compress = deflated.length < entry.data.length
+    const body = compress ? deflated : entry.data
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date())
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(6, 0x0800, true)
+    localView.setUint16(8, compress ? 8 : 0, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, body.length, true)
+    localView.setUint32(22, entry.data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, 0x0800, true)
+    centralView.setUint16(10, compress ? 8 : 0, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, body.length, true)
+    centralView.setUint32(24, entry.data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    parts.push(local, body)
+    centralDirectory.push(central)
+    offset += local.length + body.length
+  }
+
+  const centralSize = centralDirectory.reduce((total, header) => total + header.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' })
+}
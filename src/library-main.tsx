@@ -0,0 +1,10 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import Library from './Library.tsx'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <Library />
+  </StrictMode>,
+)
@@ -0,0 +1,20 @@
+// jsdom parses these rules but exposes neither their classes nor CSS.supports, and it has no
+// constructable stylesheets.
+const probe = document.createElement('style')
+probe.textContent = '@supports (display: grid) {} @font-face {} @keyframes probe {}'
+document.head.append(probe)
+const [supportsRule, fontFaceRule, keyframesRule] = Array.from(probe.sheet?.cssRules ?? [])
+probe.remove()
+
+Object.assign(globalThis, {
+  CSSSupportsRule: globalThis.CSSSupportsRule ?? supportsRule.constructor,
+  CSSFontFaceRule: globalThis.CSSFontFaceRule ?? fontFaceRule.constructor,
+  CSSKeyframesRule: globalThis.CSSKeyframesRule ?? keyframesRule.constructor,
+  CSS: globalThis.CSS ?? { supports: () => true },
+})
+
+for (const prototype of [Document.prototype, ShadowRoot.prototype]) {
+  if (!('adoptedStyleSheets' in prototype)) {
+    Object.defineProperty(prototype, 'adoptedStyleSheets', { get: () => [] })
+  }
+}
@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite'
+import path from 'node:path'
+
+// The capture script is injected with chrome.scripting.executeScript({ files }), which runs
+// classic scripts only, so it is built on its own as one self-contained IIFE.
+export default defineConfig({
+  build: {
+    emptyOutDir: false,
+    copyPublicDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'src/capture.ts'),
+      formats: ['iife'],
+      name: 'pagesnapCapture',
+      fileName: () => 'capture.js',
+    },
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+})